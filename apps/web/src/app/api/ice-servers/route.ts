@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { iceServersLimiter, getRateLimitKey, createRateLimitResponse } from '@/lib/rate-limit';
+import { buildIceServers } from '@/lib/turn-credentials';
+
+// Minted per request from the TURN secret, so nothing secret ships in the client bundle
+export async function GET(req: Request) {
+  const rateLimit = iceServersLimiter.isAllowed(getRateLimitKey(req, 'ice-servers'));
+  if (!rateLimit.allowed) {
+    return createRateLimitResponse(rateLimit.resetTime!);
+  }
+
+  return NextResponse.json(buildIceServers(), {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
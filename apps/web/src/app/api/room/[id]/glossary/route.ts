@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getRoomGlossary, putRoomGlossary, signalingErrorResponse } from '@/lib/signaling-api';
+import { cacheRoomGlossary, parseGlossary } from '@/lib/glossary';
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    return NextResponse.json(await getRoomGlossary(params.id));
+  } catch (err) {
+    return signalingErrorResponse(err);
+  }
+}
+
+// Replaces the whole glossary; only the room creator's host key is accepted
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  const hostKey = req.headers.get('x-host-key');
+  if (!hostKey) {
+    return NextResponse.json({ error: 'Missing X-Host-Key header', code: 'NOT_HOST' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const glossary = await putRoomGlossary(params.id, parseGlossary(body), hostKey);
+    // Apply the edit to this instance right away instead of after the glossary cache expires
+    cacheRoomGlossary(params.id, glossary);
+    return NextResponse.json(glossary);
+  } catch (err) {
+    return signalingErrorResponse(err);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { listMessages, signalingErrorResponse } from '@/lib/signaling-api';
+
+// Chat history paging: ?before=<seq> returns the page of messages preceding that seq
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  const { searchParams } = new URL(req.url);
+  try {
+    const page = await listMessages(params.id, {
+      before: searchParams.get('before') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    });
+    return NextResponse.json(page);
+  } catch (err) {
+    return signalingErrorResponse(err);
+  }
+}
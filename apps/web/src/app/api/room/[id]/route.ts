@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getRoom, signalingErrorResponse } from '@/lib/signaling-api';
+
+// Room metadata for the lobby, shown before joining
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const room = await getRoom(params.id);
+    return NextResponse.json(room);
+  } catch (err) {
+    return signalingErrorResponse(err);
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getRoomTranscript, signalingErrorResponse } from '@/lib/signaling-api';
+import { translateBatchLimiter, getRateLimitKey, createRateLimitResponse, isInternalRequest } from '@/lib/rate-limit';
+import { getTranslationService } from '@/lib/translation-service';
+import { resolveGlossary } from '@/lib/glossary';
+import {
+  buildTranscript,
+  formatTranscript,
+  isTranscriptFormat,
+  transcriptFileName,
+  translateTranscript,
+  TRANSCRIPT_CONTENT_TYPES,
+  TRANSCRIPT_FORMATS
+} from '@/lib/transcript';
+
+// Transcript download: ?format=txt|srt|vtt|md|json, and ?lang=<code> to render translations into that language
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  const { searchParams } = new URL(req.url);
+  const format = (searchParams.get('format') || 'txt').toLowerCase();
+  if (!isTranscriptFormat(format)) {
+    return NextResponse.json({ error: `format must be one of ${TRANSCRIPT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+  const lang = searchParams.get('lang') || undefined;
+
+  // A translated export is a batch translation of the whole meeting; share the batch budget
+  if (lang && !isInternalRequest(req)) {
+    const rateLimit = translateBatchLimiter.isAllowed(getRateLimitKey(req, 'transcript'));
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(rateLimit.resetTime!);
+    }
+  }
+
+  let transcript;
+  try {
+    transcript = buildTranscript(await getRoomTranscript(params.id));
+  } catch (err) {
+    return signalingErrorResponse(err);
+  }
+
+  if (lang) {
+    try {
+      const glossary = await resolveGlossary(params.id);
+      const service = getTranslationService();
+      transcript = await translateTranscript(transcript, lang, (texts, targetLang, sourceLang) =>
+        service.translateBatchWithDetection(texts, targetLang, sourceLang, glossary)
+      );
+    } catch (err) {
+      // The originals are still worth downloading
+      console.warn('[Transcript] Translation failed, exporting originals only:', err);
+    }
+  }
+
+  return new Response(formatTranscript(transcript, format), {
+    headers: {
+      'Content-Type': TRANSCRIPT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${transcriptFileName(transcript, format)}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { roomLimiter, getRateLimitKey, createRateLimitResponse } from '@/lib/rate-limit';
+import { createRoom, signalingErrorResponse, type CreateRoomInput } from '@/lib/signaling-api';
 
 export async function POST(req: Request) {
   // Rate limiting
@@ -10,10 +11,28 @@ export async function POST(req: Request) {
     return createRateLimitResponse(rateLimit.resetTime!);
   }
 
-  const id = crypto.randomUUID();
-  return NextResponse.json({ id });
-}
-
-
-
+  // Body is optional: the home page creates rooms with defaults
+  let input: CreateRoomInput = {};
+  const raw = await req.text();
+  if (raw.trim()) {
+    try {
+      const body = JSON.parse(raw);
+      input = {
+        title: body?.title ? String(body.title) : undefined,
+        createdBy: body?.createdBy ? String(body.createdBy) : undefined,
+        maxParticipants: body?.maxParticipants != null ? Number(body.maxParticipants) : undefined,
+        defaultLang: body?.defaultLang ? String(body.defaultLang) : undefined,
+        ttlMinutes: body?.ttlMinutes != null ? Number(body.ttlMinutes) : undefined,
+      };
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+  }
 
+  try {
+    const room = await createRoom(input);
+    return NextResponse.json(room);
+  } catch (err) {
+    return signalingErrorResponse(err);
+  }
+}
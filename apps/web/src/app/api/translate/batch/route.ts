@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { translateBatchLimiter, getRateLimitKey, createRateLimitResponse, isInternalRequest } from '@/lib/rate-limit';
+import { getTranslationService } from '@/lib/translation-service';
+import { resolveGlossary } from '@/lib/glossary';
+
+// Matches the largest chat history page a client can request
+const MAX_BATCH_ITEMS = 200;
+
+export async function POST(req: Request) {
+  // Batches have their own budget so history loads do not starve live translation
+  if (!isInternalRequest(req)) {
+    const rateLimitKey = getRateLimitKey(req, 'translate-batch');
+    const rateLimit = translateBatchLimiter.isAllowed(rateLimitKey);
+
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(rateLimit.resetTime!);
+    }
+  }
+
+  let texts: string[];
+  let targetLang: string;
+  let sourceLang: string | undefined;
+  let roomId: string | undefined;
+
+  try {
+    const body = await req.json();
+    if (!Array.isArray(body?.texts)) {
+      return NextResponse.json({ error: 'texts must be an array' }, { status: 400 });
+    }
+    texts = body.texts.map((text: unknown) => String(text ?? ''));
+    targetLang = String(body?.targetLang ?? 'EN');
+    sourceLang = body?.sourceLang ? String(body.sourceLang) : undefined;
+    roomId = body?.roomId ? String(body.roomId) : undefined;
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (texts.length > MAX_BATCH_ITEMS) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH_ITEMS} texts per batch` }, { status: 400 });
+  }
+
+  try {
+    const results = await getTranslationService().translateBatchWithDetection(texts, targetLang, sourceLang, await resolveGlossary(roomId));
+    return NextResponse.json({
+      translations: results.map(({ text, detectedLang }) => ({
+        translated: text,
+        ...(detectedLang && { detectedLang })
+      }))
+    });
+  } catch (err: any) {
+    console.error('[Translation API] Batch error:', err);
+    return NextResponse.json({
+      error: 'Translation error',
+      details: String(err?.message || err)
+    }, { status: 500 });
+  }
+}
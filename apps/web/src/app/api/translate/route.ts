@@ -1,25 +1,30 @@
 import { NextResponse } from 'next/server';
-import { translateLimiter, getRateLimitKey, createRateLimitResponse } from '@/lib/rate-limit';
+import { translateLimiter, getRateLimitKey, createRateLimitResponse, isInternalRequest } from '@/lib/rate-limit';
 import { getTranslationService } from '@/lib/translation-service';
+import { resolveGlossary } from '@/lib/glossary';
 
 export async function POST(req: Request) {
-  // Rate limiting with optimized limiter
-  const rateLimitKey = getRateLimitKey(req, 'translate');
-  const rateLimit = translateLimiter.isAllowed(rateLimitKey);
-  
-  if (!rateLimit.allowed) {
-    return createRateLimitResponse(rateLimit.resetTime!);
+  // Rate limiting with optimized limiter (the signaling fan-out is exempt)
+  if (!isInternalRequest(req)) {
+    const rateLimitKey = getRateLimitKey(req, 'translate');
+    const rateLimit = translateLimiter.isAllowed(rateLimitKey);
+    
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(rateLimit.resetTime!);
+    }
   }
 
   let text: string = '';
   let targetLang: string = 'EN';
   let sourceLang: string | undefined;
+  let roomId: string | undefined;
   
   try {
     const body = await req.json();
     text = String(body?.text ?? '');
     targetLang = String(body?.targetLang ?? 'EN');
     sourceLang = body?.sourceLang ? String(body.sourceLang) : undefined;
+    roomId = body?.roomId ? String(body.roomId) : undefined;
   } catch {
     return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
   }
@@ -30,7 +35,7 @@ export async function POST(req: Request) {
 
   try {
     const translationService = getTranslationService();
-    const translated = await translationService.translate(text, targetLang, sourceLang);
+    const { text: translated, detectedLang } = await translationService.translateWithDetection(text, targetLang, sourceLang, await resolveGlossary(roomId));
     
     // Include cache statistics in development
     const stats = process.env.NODE_ENV === 'development' ? {
@@ -40,6 +45,7 @@ export async function POST(req: Request) {
 
     return NextResponse.json({ 
       translated,
+      ...(detectedLang && { detectedLang }),
       ...(stats && { debug: stats })
     });
   } catch (err: any) {
@@ -60,6 +66,8 @@ export async function GET() {
     return NextResponse.json({
       status: 'ok',
       service: 'translation',
+      provider: translationService.providerName,
+      cacheStore: translationService.cacheStoreName ?? 'none',
       timestamp: new Date().toISOString(),
       stats: {
         ...stats,
@@ -24,6 +24,11 @@ export default function HomePage() {
       if (!j.id) {
         throw new Error('Invalid response from server');
       }
+
+      // Remember the host key so this browser claims the host role on join
+      if (j.hostKey) {
+        try { localStorage.setItem(`supichat:host:${j.id}`, j.hostKey); } catch {}
+      }
       
       location.href = `${base}/room/${j.id}`;
     } catch (err: any) {
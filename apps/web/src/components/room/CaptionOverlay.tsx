@@ -0,0 +1,46 @@
+/**
+ * Live caption for one speaker, drawn over their video tile
+ * Shows the translation into the viewer's language when there is one, with the
+ * original underneath, and fades out once the speaker pauses.
+ */
+
+'use client';
+
+import React, { useEffect } from 'react';
+import { useCaption, useCaptionsActions, useCaptionsEnabled } from '@/lib/stores/captions-store';
+
+// Final captions linger long enough to read; interim ones only if recognition stalls
+const FINAL_CAPTION_MS = 5000;
+const INTERIM_CAPTION_MS = 8000;
+
+interface CaptionOverlayProps {
+  peerId: string;
+}
+
+const CaptionOverlay = React.memo(function CaptionOverlay({ peerId }: CaptionOverlayProps) {
+  const enabled = useCaptionsEnabled();
+  const caption = useCaption(peerId);
+  const { clearCaption } = useCaptionsActions();
+
+  useEffect(() => {
+    if (!caption) return;
+    const timer = setTimeout(
+      () => clearCaption(peerId, caption.id),
+      caption.final ? FINAL_CAPTION_MS : INTERIM_CAPTION_MS
+    );
+    return () => clearTimeout(timer);
+  }, [caption, peerId, clearCaption]);
+
+  if (!enabled || !caption) return null;
+
+  return (
+    <div data-testid="caption" className="absolute bottom-10 inset-x-2 flex justify-center pointer-events-none">
+      <div className="max-w-full bg-black/75 text-white px-3 py-1 rounded text-sm text-center">
+        <div className={caption.final ? '' : 'opacity-80 italic'}>{caption.translated || caption.text}</div>
+        {caption.translated && <div className="text-xs text-gray-300">{caption.text}</div>}
+      </div>
+    </div>
+  );
+});
+
+export default CaptionOverlay;
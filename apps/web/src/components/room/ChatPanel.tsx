@@ -0,0 +1,131 @@
+/**
+ * Translated chat with the viewer language picker and transcript export
+ * Each message renders from its own store entry, so delivery receipts and late
+ * translations only re-render the message they belong to.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { MAX_CHAT_LENGTH } from '@supichat/protocol';
+import { LANGS, getLangLabel } from '@/lib/i18n';
+import { TRANSCRIPT_FORMATS, type TranscriptFormat } from '@/lib/transcript';
+import { useMessage, useMessageIds, useRoomStore, type ChatMessage } from '@/lib/stores/room-store';
+
+const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH || '/supichat';
+
+interface ChatPanelProps {
+  roomId: string;
+  onSend: () => void;
+  onLoadOlder: () => Promise<void>;
+}
+
+function formatStatus(m: ChatMessage) {
+  switch (m.status) {
+    case 'pending': return 'Sending…';
+    case 'sent': return 'Sent';
+    case 'delivered': return `Delivered to ${m.deliveredTo ?? 0}`;
+    case 'failed': return 'Not sent';
+    default: return '';
+  }
+}
+
+const ChatMessageItem = React.memo(function ChatMessageItem({ messageId }: { messageId: string }) {
+  const m = useMessage(messageId);
+  if (!m) return null;
+
+  return (
+    <div data-testid="msg" data-author={m.name ? 'peer' : 'self'} className={`flex ${m.name ? '' : 'justify-end'}`}>
+      <div className={`max-w-xs ${m.name ? 'chat-message' : 'chat-message own'}`}>
+        <div className="text-xs text-gray-300 mb-1">
+          {m.name || 'You'}
+          {m.detectedLang && <span data-testid="msg-lang" className="ml-1 text-[10px] bg-gray-600 px-1 rounded">{m.detectedLang.toUpperCase()}</span>}
+        </div>
+        <div className="text-xs text-gray-400" data-original>
+          {m.original}
+        </div>
+        {m.translated ? (
+          <div className="text-sm text-white mt-1" data-translated>{m.translated}</div>
+        ) : null}
+        {m.status && (
+          <div className="text-[10px] text-gray-400 mt-1 text-right" data-testid="msg-status">{formatStatus(m)}</div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+const ChatPanel = React.memo(function ChatPanel({ roomId, onSend, onLoadOlder }: ChatPanelProps) {
+  const messageIds = useMessageIds();
+  const hasMoreHistory = useRoomStore(s => s.chat.hasMoreHistory);
+  const chatInput = useRoomStore(s => s.chat.chatInput);
+  const lang = useRoomStore(s => s.ui.user.lang);
+  const actions = useRoomStore(s => s.actions);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [transcriptFormat, setTranscriptFormat] = useState<TranscriptFormat>('txt');
+
+  async function loadOlder() {
+    if (loadingHistory) return;
+    setLoadingHistory(true);
+    try {
+      await onLoadOlder();
+    } finally {
+      setLoadingHistory(false);
+    }
+  }
+
+  // Server-rendered export of chat, captions and join/leave events, translated into the viewer's language
+  const transcriptUrl = `${BASE_PATH}/api/room/${encodeURIComponent(roomId)}/transcript?format=${transcriptFormat}&lang=${encodeURIComponent(lang)}`;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-600">
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-400">Auto-translate to:</div>
+          <select data-testid="viewer-lang" value={lang} onChange={e => actions.setUser({ lang: e.target.value })} className="meet-select text-xs">
+            {LANGS.map(l => <option key={l.code} value={l.code}>{l.code.toUpperCase()}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <div className="text-sm text-gray-400">Transcript:</div>
+          <div className="flex items-center gap-2">
+            <select data-testid="transcript-format" value={transcriptFormat} onChange={e => setTranscriptFormat(e.target.value as TranscriptFormat)} className="meet-select text-xs">
+              {TRANSCRIPT_FORMATS.map(f => <option key={f} value={f}>{f.toUpperCase()}</option>)}
+            </select>
+            <a data-testid="transcript-download" href={transcriptUrl} download className="text-xs text-blue-400 hover:text-blue-300">Download</a>
+          </div>
+        </div>
+      </div>
+
+      <div data-testid="chat-list" className="flex-1 overflow-auto p-4 space-y-3">
+        {hasMoreHistory && (
+          <button data-testid="load-older" onClick={loadOlder} disabled={loadingHistory} className="w-full text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50">
+            {loadingHistory ? 'Loading…' : 'Load earlier messages'}
+          </button>
+        )}
+        {messageIds.map(id => <ChatMessageItem key={id} messageId={id} />)}
+      </div>
+
+      <div className="p-4 border-t border-gray-600">
+        <div className="flex gap-2">
+          <input
+            data-testid="chat-input"
+            value={chatInput}
+            onChange={e => actions.setChatInput(e.target.value)}
+            maxLength={MAX_CHAT_LENGTH}
+            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); onSend(); } }}
+            className="meet-input text-sm"
+            placeholder={`Message (${getLangLabel(lang)})`}
+          />
+          <button data-testid="chat-send" onClick={onSend} className="meet-btn-primary px-3" title="Send message">
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z"/>
+            </svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default ChatPanel;
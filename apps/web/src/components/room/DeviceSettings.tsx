@@ -0,0 +1,61 @@
+/**
+ * Microphone, camera and speaker pickers
+ * Shown in the lobby and from the control bar during a call; switching takes effect immediately.
+ */
+
+'use client';
+
+import React from 'react';
+import type { MediaKind } from '@/lib/media-devices';
+
+interface DeviceSettingsProps {
+  mics: MediaDeviceInfo[];
+  cams: MediaDeviceInfo[];
+  /** Empty where the browser cannot pick an audio output */
+  speakers: MediaDeviceInfo[];
+  micId?: string;
+  camId?: string;
+  speakerId?: string;
+  onSelectDevice: (kind: MediaKind, deviceId: string) => void;
+  onSelectSpeaker: (deviceId: string) => void;
+  className?: string;
+}
+
+const DeviceSettings = React.memo(function DeviceSettings({
+  mics,
+  cams,
+  speakers,
+  micId,
+  camId,
+  speakerId,
+  onSelectDevice,
+  onSelectSpeaker,
+  className = ''
+}: DeviceSettingsProps) {
+  return (
+    <div className={`grid grid-cols-1 gap-4 ${speakers.length ? 'md:grid-cols-3' : 'md:grid-cols-2'} ${className}`}>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Microphone</label>
+        <select data-testid="mic-device" value={micId} onChange={e => onSelectDevice('audio', e.target.value)} className="meet-select text-sm">
+          {mics.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label || 'Default'}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Camera</label>
+        <select data-testid="cam-device" value={camId} onChange={e => onSelectDevice('video', e.target.value)} className="meet-select text-sm">
+          {cams.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label || 'Default'}</option>)}
+        </select>
+      </div>
+      {speakers.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Speaker</label>
+          <select data-testid="speaker-device" value={speakerId} onChange={e => onSelectSpeaker(e.target.value)} className="meet-select text-sm">
+            {speakers.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label || 'Default'}</option>)}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default DeviceSettings;
@@ -0,0 +1,59 @@
+/**
+ * Microphone and camera toggles
+ * Used in the lobby under the preview and at the start of the in-call control bar.
+ */
+
+'use client';
+
+import React from 'react';
+import { useRoomStore } from '@/lib/stores/room-store';
+
+interface MediaControlsProps {
+  onToggle: (kind: 'audio' | 'video') => void;
+}
+
+const MediaControls = React.memo(function MediaControls({ onToggle }: MediaControlsProps) {
+  const micEnabled = useRoomStore(s => s.media.local.micEnabled);
+  const camEnabled = useRoomStore(s => s.media.local.camEnabled);
+
+  return (
+    <>
+      <button
+        data-testid="toggle-mic"
+        onClick={() => onToggle('audio')}
+        className={`meet-btn-icon ${micEnabled ? '' : 'danger'}`}
+        title={micEnabled ? 'Mute microphone' : 'Unmute microphone'}
+      >
+        {micEnabled ? (
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M10 12a2 2 0 100-4 2 2 0 000 4z"/>
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-13a1 1 0 10-2 0v4a1 1 0 102 0V5z" clipRule="evenodd"/>
+          </svg>
+        ) : (
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M2.22 2.22a.75.75 0 011.06 0L6.56 5.5H9a.75.75 0 010 1.5H8.06l3.94 3.94V14a.75.75 0 01-1.5 0v-2.44l-6.28-6.28a.75.75 0 010-1.06z" clipRule="evenodd"/>
+          </svg>
+        )}
+      </button>
+
+      <button
+        data-testid="toggle-cam"
+        onClick={() => onToggle('video')}
+        className={`meet-btn-icon ${camEnabled ? '' : 'danger'}`}
+        title={camEnabled ? 'Turn off camera' : 'Turn on camera'}
+      >
+        {camEnabled ? (
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M17 10.5V7c0-.55-.45-1-1-1H4c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h12c.55 0 1-.45 1-1v-3.5l4 4v-11l-4 4z"/>
+          </svg>
+        ) : (
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M21 6.5l-4 4V7a1 1 0 00-1-1H9.83l8.17 8.17v-7.67zM3.83 2L2 3.83 4.02 5.85C4.01 5.9 4 5.95 4 6v10c0 .55.45 1 1 1h12c.05 0 .1-.01.15-.02L20 19.83 21.83 18 3.83 2z"/>
+          </svg>
+        )}
+      </button>
+    </>
+  );
+});
+
+export default MediaControls;
@@ -0,0 +1,110 @@
+/**
+ * Everyone in the call, us first
+ * The host also gets the lock toggle and per-person moderation buttons.
+ */
+
+'use client';
+
+import React from 'react';
+import { usePeer, usePeerIds, useRoomStore } from '@/lib/stores/room-store';
+import type { ModerationAction } from '@/lib/use-room-connection';
+
+interface PeopleListProps {
+  onModerate: (action: ModerationAction, peerId: string) => void;
+  onToggleLock: () => void;
+}
+
+interface PersonProps {
+  name: string;
+  isHost: boolean;
+  micEnabled?: boolean;
+  camEnabled?: boolean;
+  lang?: string;
+  children?: React.ReactNode;
+}
+
+function Person({ name, isHost, micEnabled, camEnabled, lang, children }: PersonProps) {
+  return (
+    <div className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-700 transition-colors">
+      <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-sm font-medium">
+        {(name || 'U')[0].toUpperCase()}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="text-sm text-white truncate">
+          {name}
+          {isHost && <span className="ml-1 text-xs bg-blue-600 px-1 rounded">Host</span>}
+        </div>
+        {lang && <div className="text-xs text-gray-400">{lang.toUpperCase()}</div>}
+      </div>
+      <div className="flex items-center gap-1">
+        {children}
+        {camEnabled === false && (
+          <svg data-testid="person-camera-off" className="w-3 h-3 text-red-400" fill="currentColor" viewBox="0 0 20 20">
+            <title>Camera off</title>
+            <path d="M2 4a2 2 0 012-2h12a2 2 0 012 2v8a2 2 0 01-2 2H4a2 2 0 01-2-2V4z"/>
+            <path d="M2 2l16 16" stroke="currentColor" strokeWidth="2"/>
+          </svg>
+        )}
+        {micEnabled === false ? (
+          <div data-testid="person-mic-off" className="w-2 h-2 bg-red-500 rounded-full" title="Microphone off"></div>
+        ) : (
+          <div className="w-2 h-2 bg-green-500 rounded-full" title="Microphone on"></div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const RemotePerson = React.memo(function RemotePerson({ peerId, canModerate, onModerate }: {
+  peerId: string;
+  canModerate: boolean;
+  onModerate: PeopleListProps['onModerate'];
+}) {
+  const peer = usePeer(peerId);
+  const isHost = useRoomStore(s => s.connection.hostId === peerId);
+  if (!peer) return null;
+
+  return (
+    <Person name={peer.name || 'Guest'} isHost={isHost} micEnabled={peer.micEnabled} camEnabled={peer.camEnabled}>
+      {canModerate && (
+        <div className="flex gap-1 mr-1">
+          <button data-testid="moderate-mute" onClick={() => onModerate('mute', peerId)} className="text-xs text-gray-300 hover:text-white px-1" title="Mute for everyone">Mute</button>
+          <button data-testid="moderate-stop-video" onClick={() => onModerate('stop-video', peerId)} className="text-xs text-gray-300 hover:text-white px-1" title="Turn off camera">Stop video</button>
+          <button data-testid="moderate-kick" onClick={() => onModerate('kick', peerId)} className="text-xs text-red-400 hover:text-red-300 px-1" title="Remove from meeting">Remove</button>
+        </div>
+      )}
+    </Person>
+  );
+});
+
+const PeopleList = React.memo(function PeopleList({ onModerate, onToggleLock }: PeopleListProps) {
+  const peerIds = usePeerIds();
+  const micEnabled = useRoomStore(s => s.media.local.micEnabled);
+  const camEnabled = useRoomStore(s => s.media.local.camEnabled);
+  const user = useRoomStore(s => s.ui.user);
+  const isHost = useRoomStore(s => Boolean(s.connection.selfId && s.connection.hostId === s.connection.selfId));
+  const locked = useRoomStore(s => s.connection.locked);
+
+  return (
+    <div className="p-4" data-testid="people-list">
+      <div className="flex items-center justify-between mb-4">
+        <div data-testid="participants-header" className="text-sm text-gray-400">{1 + peerIds.length} participants</div>
+        {isHost ? (
+          <button data-testid="lock-room" onClick={onToggleLock} className="text-xs text-blue-400 hover:text-blue-300">
+            {locked ? 'Unlock meeting' : 'Lock meeting'}
+          </button>
+        ) : locked ? (
+          <span className="text-xs text-gray-400">Locked</span>
+        ) : null}
+      </div>
+      <div className="space-y-2">
+        <Person name={`${user.name} (You)`} isHost={isHost} micEnabled={micEnabled} camEnabled={camEnabled} lang={user.lang} />
+        {peerIds.map(id => (
+          <RemotePerson key={id} peerId={id} canModerate={isHost} onModerate={onModerate} />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+export default PeopleList;
@@ -0,0 +1,52 @@
+/**
+ * Shared screen shown large in the presenter layout
+ * Plays the share's own audio (tab or system sound); our own share stays muted.
+ */
+
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { setAudioOutput } from '@/lib/media-devices';
+
+export interface Presentation {
+  peerId: string;
+  stream: MediaStream;
+  name?: string;
+  isLocal?: boolean;
+}
+
+const PresentationView = React.memo(function PresentationView({ presentation, onStop, sinkId }: {
+  presentation: Presentation;
+  /** Offered on our own share */
+  onStop?: () => void;
+  /** Audio output for the share's sound */
+  sinkId?: string;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { stream, name, isLocal } = presentation;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && video.srcObject !== stream) video.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    if (videoRef.current && !isLocal) setAudioOutput(videoRef.current, sinkId).catch(() => {});
+  }, [sinkId, isLocal]);
+
+  return (
+    <div data-testid="presentation" className="presenter-stage">
+      <video ref={videoRef} autoPlay playsInline muted={isLocal} className="w-full h-full object-contain" />
+      <div className="video-overlay">
+        <div className="video-name">{isLocal ? 'You are presenting' : `${name || 'Guest'} is presenting`}</div>
+        {isLocal && onStop && (
+          <button data-testid="stop-share" onClick={onStop} className="meet-btn meet-btn-danger absolute top-2 right-2 text-xs pointer-events-auto">
+            Stop presenting
+          </button>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default PresentationView;
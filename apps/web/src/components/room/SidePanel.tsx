@@ -0,0 +1,63 @@
+/**
+ * People and chat tabs
+ * Always shown under the video on mobile, and as a closable sidebar on desktop.
+ */
+
+'use client';
+
+import React from 'react';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { usePeerIds, useRoomStore } from '@/lib/stores/room-store';
+import type { ModerationAction } from '@/lib/use-room-connection';
+import ChatPanel from './ChatPanel';
+import PeopleList from './PeopleList';
+
+interface SidePanelProps {
+  roomId: string;
+  /** Offered on desktop, where the panel overlays the call */
+  onClose?: () => void;
+  onSend: () => void;
+  onLoadOlder: () => Promise<void>;
+  onModerate: (action: ModerationAction, peerId: string) => void;
+  onToggleLock: () => void;
+}
+
+const SidePanel = React.memo(function SidePanel({ roomId, onClose, onSend, onLoadOlder, onModerate, onToggleLock }: SidePanelProps) {
+  const tab = useRoomStore(s => s.ui.panels.sidebarTab);
+  const participants = 1 + usePeerIds().length;
+  const { setSidebarTab, clearUnreadCount } = useRoomStore(s => s.actions);
+
+  function showTab(next: 'people' | 'chat') {
+    setSidebarTab(next);
+    if (next === 'chat') clearUnreadCount();
+  }
+
+  const tabClass = (t: 'people' | 'chat') =>
+    `px-3 py-1 text-sm rounded-lg transition-colors ${tab === t ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'}`;
+
+  return (
+    <ErrorBoundary>
+      <div className="chat-container h-full overflow-auto">
+        <div className="flex items-center justify-between p-4 border-b border-gray-600">
+          <div className="flex bg-gray-700 rounded-lg">
+            <button className={tabClass('people')} onClick={() => showTab('people')}>People</button>
+            <button className={tabClass('chat')} onClick={() => showTab('chat')}>Chat</button>
+          </div>
+          {onClose ? (
+            <button className="text-gray-400 hover:text-white p-1" onClick={onClose} title="Close sidebar">
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd"/></svg>
+            </button>
+          ) : (
+            <div className="text-sm text-gray-400">{participants} participants</div>
+          )}
+        </div>
+
+        {tab === 'people'
+          ? <PeopleList onModerate={onModerate} onToggleLock={onToggleLock} />
+          : <ChatPanel roomId={roomId} onSend={onSend} onLoadOlder={onLoadOlder} />}
+      </div>
+    </ErrorBoundary>
+  );
+});
+
+export default SidePanel;
@@ -5,24 +5,41 @@
 
 'use client';
 
-import React, { useMemo } from 'react';
-import { usePeerIds, usePeer, useLocalMedia, useActions } from '@/lib/stores/room-store';
+import React, { useCallback, useMemo } from 'react';
+import { usePeerIds, usePinnedPeerId, useActiveSpeakerId, useGridMode, useActions, useRoomStore } from '@/lib/stores/room-store';
 import VideoTile from './VideoTile';
+import PresentationView, { type Presentation } from './PresentationView';
 
 interface VideoGridProps {
   localStream?: MediaStream | null;
   getRemoteStream?: (peerId: string) => MediaStream | null;
+  /** A screen share switches the grid to the presenter layout */
+  presentation?: Presentation | null;
+  onStopPresenting?: () => void;
+  /** Audio output device for remote audio */
+  sinkId?: string;
   className?: string;
 }
 
 const VideoGrid = React.memo(function VideoGrid({ 
   localStream, 
   getRemoteStream,
+  presentation,
+  onStopPresenting,
+  sinkId,
   className = '' 
 }: VideoGridProps) {
   const peerIds = usePeerIds();
-  const localMedia = useLocalMedia();
+  const pinnedPeerId = usePinnedPeerId();
+  const activeSpeakerId = useActiveSpeakerId();
+  const gridMode = useGridMode();
   const actions = useActions();
+
+  // Spotlight features the pinned peer, else whoever is speaking, else the first to join.
+  // Pinning someone implies the spotlight even when the grid layout is selected.
+  const featuredPeerId = (gridMode === 'spotlight' || pinnedPeerId)
+    ? (pinnedPeerId ?? (activeSpeakerId && peerIds.includes(activeSpeakerId) ? activeSpeakerId : peerIds[0]) ?? null)
+    : null;
   
   // Stable grid layout calculation
   const gridLayout = useMemo(() => {
@@ -42,16 +59,62 @@ const VideoGrid = React.memo(function VideoGrid({
   }, [peerIds.length]);
 
   // Memoized handlers to prevent VideoTile re-renders
-  const handleTogglePeerMute = useMemo(() => (peerId: string) => {
-    // This would integrate with your local muting logic
-    console.log(`Toggle mute for peer: ${peerId}`);
-  }, []);
+  const handleTogglePeerMute = useCallback((peerId: string) => {
+    actions.toggleLocalMute(peerId);
+  }, [actions]);
 
-  const handleTogglePeerPin = useMemo(() => (peerId: string) => {
-    actions.setPinnedPeer(peerId);
+  // Pinning the pinned peer again unpins them
+  const handleTogglePeerPin = useCallback((peerId: string) => {
+    const pinned = useRoomStore.getState().peers.pinnedPeerId;
+    actions.setPinnedPeer(pinned === peerId ? null : peerId);
   }, [actions]);
 
-  const pinnedPeerId = usePeer('pinned')?.id; // You'd need to implement this in the store
+  const remoteTile = (peerId: string) => (
+    <VideoTile
+      key={peerId}
+      peerId={peerId}
+      isLocal={false}
+      stream={getRemoteStream?.(peerId)}
+      onToggleMute={handleTogglePeerMute}
+      onTogglePin={handleTogglePeerPin}
+      isPinned={pinnedPeerId === peerId}
+      sinkId={sinkId}
+      className="remote-video"
+    />
+  );
+
+  const tiles = (
+    <>
+      {/* Local video tile */}
+      <VideoTile
+        peerId="local"
+        isLocal={true}
+        stream={localStream}
+        className="local-video"
+      />
+
+      {/* Remote video tiles */}
+      {peerIds.filter(id => presentation || id !== featuredPeerId).map(remoteTile)}
+    </>
+  );
+
+  if (presentation) {
+    return (
+      <div className={`presenter-layout h-full ${className}`}>
+        <PresentationView presentation={presentation} onStop={onStopPresenting} sinkId={sinkId} />
+        <div className="filmstrip">{tiles}</div>
+      </div>
+    );
+  }
+
+  if (featuredPeerId) {
+    return (
+      <div data-testid="spotlight-layout" className={`presenter-layout h-full ${className}`}>
+        <div className="presenter-stage">{remoteTile(featuredPeerId)}</div>
+        <div className="filmstrip">{tiles}</div>
+      </div>
+    );
+  }
 
   return (
     <div 
@@ -64,27 +127,7 @@ const VideoGrid = React.memo(function VideoGrid({
         padding: '4px'
       }}
     >
-      {/* Local video tile */}
-      <VideoTile
-        peerId="local"
-        isLocal={true}
-        stream={localStream}
-        className="local-video"
-      />
-
-      {/* Remote video tiles */}
-      {peerIds.map(peerId => (
-        <VideoTile
-          key={peerId}
-          peerId={peerId}
-          isLocal={false}
-          stream={getRemoteStream?.(peerId)}
-          onToggleMute={handleTogglePeerMute}
-          onTogglePin={handleTogglePeerPin}
-          isPinned={pinnedPeerId === peerId}
-          className="remote-video"
-        />
-      ))}
+      {tiles}
     </div>
   );
 });
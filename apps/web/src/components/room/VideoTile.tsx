@@ -6,7 +6,9 @@
 'use client';
 
 import React, { useEffect, useRef, useCallback } from 'react';
-import { usePeer } from '@/lib/stores/room-store';
+import { usePeer, useRoomStore } from '@/lib/stores/room-store';
+import CaptionOverlay from './CaptionOverlay';
+import { setAudioOutput } from '@/lib/media-devices';
 
 interface VideoTileProps {
   peerId: string;
@@ -15,6 +17,8 @@ interface VideoTileProps {
   onToggleMute?: (peerId: string) => void;
   onTogglePin?: (peerId: string) => void;
   isPinned?: boolean;
+  /** Audio output device for remote audio */
+  sinkId?: string;
   className?: string;
 }
 
@@ -25,9 +29,14 @@ const VideoTile = React.memo(function VideoTile({
   onToggleMute, 
   onTogglePin, 
   isPinned = false,
+  sinkId,
   className = '' 
 }: VideoTileProps) {
   const peer = usePeer(peerId);
+  // Our own tile shows our devices rather than a peer entry
+  const micEnabled = useRoomStore(s => isLocal ? s.media.local.micEnabled : peer?.micEnabled);
+  const camEnabled = useRoomStore(s => isLocal ? s.media.local.camEnabled : peer?.camEnabled);
+  const micLevel = useRoomStore(s => isLocal ? s.media.local.micLevel : 0);
   const videoRef = useRef<HTMLVideoElement>(null);
 
   // Imperatively attach media tracks to avoid React re-renders
@@ -44,6 +53,16 @@ const VideoTile = React.memo(function VideoTile({
     };
   }, [stream]);
 
+  useEffect(() => {
+    if (videoRef.current && !isLocal) setAudioOutput(videoRef.current, sinkId).catch(() => {});
+  }, [sinkId, isLocal]);
+
+  // Always mute local video to prevent feedback; remote audio only when muted on this device
+  const locallyMuted = !isLocal && peer?.locallyMuted === true;
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.muted = isLocal || locallyMuted;
+  }, [isLocal, locallyMuted]);
+
   // Stable callback handlers
   const handleToggleMute = useCallback(() => {
     onToggleMute?.(peerId);
@@ -54,30 +73,29 @@ const VideoTile = React.memo(function VideoTile({
   }, [peerId, onTogglePin]);
 
   const displayName = isLocal ? 'You' : (peer?.name || 'Guest');
-  const isMuted = isLocal ? false : peer?.micEnabled === false;
-  const isCameraOn = peer?.camEnabled !== false;
+  // What the peer reported about their own devices
+  const micOff = micEnabled === false;
+  const isCameraOn = camEnabled !== false;
   const isSpeaking = peer?.speaking === true;
-  const audioLevel = peer?.audioLevel || 0;
+  const isActiveSpeaker = useRoomStore(s => !isLocal && s.peers.activeSpeakerId === peerId);
+  // Our own meter has no speaking detection; show it live whenever the mic is on
+  const levelActive = isLocal || isSpeaking;
+  const audioLevel = isLocal ? micLevel : (peer?.audioLevel || 0);
+  const connectionLost = !isLocal && (peer?.connection === 'reconnecting' || peer?.connection === 'failed');
 
   return (
-    <div className={`video-tile group ${isPinned ? 'pinned' : ''} ${className}`}>
+    <div className={`video-tile group ${isPinned ? 'pinned' : ''} ${isActiveSpeaker ? 'active-speaker' : ''} ${className}`}>
       <video
         ref={videoRef}
         autoPlay
         playsInline
-        muted={isLocal} // Always mute local video to prevent feedback
+        muted={isLocal}
         className="w-full h-full object-cover"
       />
       
       {!isCameraOn && (
-        <div className="absolute inset-0 flex items-center justify-center bg-gray-800">
-          <div className="text-center">
-            <svg className="w-12 h-12 text-gray-400 mx-auto mb-2" fill="currentColor" viewBox="0 0 24 24">
-              <path d="M21 6.5l-4 4V7a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h12a1 1 0 001-1v-3.5l4 4v-11z"/>
-              <path d="M2 2l20 20" stroke="currentColor" strokeWidth="2"/>
-            </svg>
-            <p className="text-gray-400 text-sm">Camera off</p>
-          </div>
+        <div data-testid={isLocal ? undefined : 'peer-camera-off'} className="video-avatar">
+          <div className="video-avatar-initial">{displayName[0].toUpperCase()}</div>
         </div>
       )}
 
@@ -90,11 +108,27 @@ const VideoTile = React.memo(function VideoTile({
               {peer.lang.toUpperCase()}
             </span>
           )}
+          {!isLocal && micOff && (
+            <span data-testid="peer-mic-off" className="ml-1 inline-flex align-middle bg-red-600 rounded-full p-0.5" title="Microphone off">
+              <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M2.22 2.22a.75.75 0 011.06 0L6.56 5.5H9a.75.75 0 010 1.5H8.06l3.94 3.94V14a.75.75 0 01-1.5 0v-2.44l-6.28-6.28a.75.75 0 010-1.06z" clipRule="evenodd"/>
+              </svg>
+            </span>
+          )}
+          {locallyMuted && (
+            <span className="ml-1 text-[10px] text-gray-300" title="Muted on this device only">Muted for you</span>
+          )}
         </div>
 
+        {connectionLost && (
+          <div data-testid="peer-reconnecting" className="video-status">
+            {peer?.connection === 'failed' ? 'Connection lost' : 'Reconnecting…'}
+          </div>
+        )}
+
         {/* Control buttons (visible on hover) */}
         {!isLocal && (
-          <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
+          <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1 pointer-events-auto">
             {onTogglePin && (
               <button 
                 onClick={handleTogglePin}
@@ -115,14 +149,14 @@ const VideoTile = React.memo(function VideoTile({
               <button 
                 onClick={handleToggleMute}
                 className={`rounded-full p-1 transition-colors ${
-                  isMuted 
+                  locallyMuted 
                     ? 'bg-red-600 hover:bg-red-700' 
                     : 'bg-black/70 hover:bg-black/90'
                 }`}
-                title={isMuted ? 'Unmute locally' : 'Mute locally'}
+                title={locallyMuted ? 'Unmute locally' : 'Mute locally'}
               >
                 <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
-                  {isMuted ? (
+                  {locallyMuted ? (
                     <path fillRule="evenodd" d="M2.22 2.22a.75.75 0 011.06 0L6.56 5.5H9a.75.75 0 010 1.5H8.06l3.94 3.94V14a.75.75 0 01-1.5 0v-2.44l-6.28-6.28a.75.75 0 010-1.06z" clipRule="evenodd"/>
                   ) : (
                     <path d="M10 12a2 2 0 100-4 2 2 0 000 4z"/>
@@ -133,39 +167,43 @@ const VideoTile = React.memo(function VideoTile({
           </div>
         )}
 
-        {/* Status indicators */}
-        <div className="absolute top-2 right-2 flex gap-1">
-          {isMuted && (
-            <div className="bg-red-600 rounded-full p-1">
-              <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M2.22 2.22a.75.75 0 011.06 0L6.56 5.5H9a.75.75 0 010 1.5H8.06l3.94 3.94V14a.75.75 0 01-1.5 0v-2.44l-6.28-6.28a.75.75 0 010-1.06z" clipRule="evenodd"/>
-              </svg>
-            </div>
-          )}
+        {/* Status indicators; remote tiles show these in the name instead */}
+        {isLocal && (
+          <div className="absolute top-2 right-2 flex gap-1">
+            {micOff && (
+              <div className="bg-red-600 rounded-full p-1">
+                <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M2.22 2.22a.75.75 0 011.06 0L6.56 5.5H9a.75.75 0 010 1.5H8.06l3.94 3.94V14a.75.75 0 01-1.5 0v-2.44l-6.28-6.28a.75.75 0 010-1.06z" clipRule="evenodd"/>
+                </svg>
+              </div>
+            )}
           
-          {!isCameraOn && (
-            <div className="bg-red-600 rounded-full p-1">
-              <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
-                <path d="M2 4a2 2 0 012-2h12a2 2 0 012 2v8a2 2 0 01-2 2H4a2 2 0 01-2-2V4z"/>
-                <path d="M2 2l16 16" stroke="currentColor" strokeWidth="2"/>
-              </svg>
-            </div>
-          )}
-        </div>
+            {!isCameraOn && (
+              <div className="bg-red-600 rounded-full p-1">
+                <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M2 4a2 2 0 012-2h12a2 2 0 012 2v8a2 2 0 01-2 2H4a2 2 0 01-2-2V4z"/>
+                  <path d="M2 2l16 16" stroke="currentColor" strokeWidth="2"/>
+                </svg>
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Audio level indicator */}
-        {!isMuted && audioLevel > 0 && (
+        {!micOff && audioLevel > 0 && (
           <div className="absolute bottom-2 right-2 flex items-center gap-1 bg-black/70 px-2 py-1 rounded">
-            <div className={`w-2 h-2 rounded-full ${isSpeaking ? 'bg-green-500' : 'bg-gray-500'}`}></div>
+            <div className={`w-2 h-2 rounded-full ${levelActive ? 'bg-green-500' : 'bg-gray-500'}`}></div>
             <div className="w-8 h-1 bg-gray-600 rounded-full overflow-hidden">
               <div 
-                className={`h-1 transition-all ${isSpeaking ? 'bg-green-500' : 'bg-gray-400'}`}
-                style={{ width: `${Math.min(100, Math.max(4, audioLevel))}%` }} 
+                className={`h-1 transition-all ${levelActive ? 'bg-green-500' : 'bg-gray-400'}`}
+                style={{ width: `${Math.min(100, Math.max(4, audioLevel * 100))}%` }} 
               />
             </div>
           </div>
         )}
 
+        <CaptionOverlay peerId={isLocal ? 'local' : peerId} />
+
         {/* Speaking indicator */}
         {isSpeaking && (
           <div className="absolute inset-0 border-2 border-green-500 rounded pointer-events-none animate-pulse"></div>
@@ -180,6 +218,7 @@ const VideoTile = React.memo(function VideoTile({
     prevProps.isLocal === nextProps.isLocal &&
     prevProps.stream === nextProps.stream &&
     prevProps.isPinned === nextProps.isPinned &&
+    prevProps.sinkId === nextProps.sinkId &&
     prevProps.className === nextProps.className
   );
 });
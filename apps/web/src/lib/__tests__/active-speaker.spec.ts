@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { DominantSpeakerDetector } from '../active-speaker';
+
+const speaking = (peerId: string, audioLevel: number) => ({ peerId, audioLevel, speaking: true });
+const quiet = (peerId: string) => ({ peerId, audioLevel: 0.01, speaking: false });
+
+describe('DominantSpeakerDetector', () => {
+  it('gives the spotlight to the first speaker straight away', () => {
+    const detector = new DominantSpeakerDetector(1000);
+    expect(detector.update([quiet('a'), quiet('b')], 0)).toBeNull();
+    expect(detector.update([quiet('a'), speaking('b', 0.4)], 100)).toBe('b');
+  });
+
+  it('only switches once someone else has been loudest for the whole delay', () => {
+    const detector = new DominantSpeakerDetector(1000);
+    detector.update([speaking('a', 0.5)], 0);
+    expect(detector.update([speaking('a', 0.2), speaking('b', 0.6)], 100)).toBe('a');
+    expect(detector.update([speaking('a', 0.2), speaking('b', 0.6)], 900)).toBe('a');
+    expect(detector.update([speaking('a', 0.2), speaking('b', 0.6)], 1100)).toBe('b');
+  });
+
+  it('restarts the delay when the current speaker takes over again', () => {
+    const detector = new DominantSpeakerDetector(1000);
+    detector.update([speaking('a', 0.5)], 0);
+    detector.update([speaking('b', 0.6)], 100);
+    detector.update([speaking('a', 0.7), speaking('b', 0.6)], 600);
+    expect(detector.update([speaking('b', 0.6)], 1200)).toBe('a');
+    expect(detector.update([speaking('b', 0.6)], 2200)).toBe('b');
+  });
+
+  it('keeps the current speaker through silence', () => {
+    const detector = new DominantSpeakerDetector(1000);
+    detector.update([speaking('a', 0.5)], 0);
+    expect(detector.update([quiet('a'), quiet('b')], 5000)).toBe('a');
+  });
+
+  it('hands the spotlight on immediately when the speaker leaves', () => {
+    const detector = new DominantSpeakerDetector(1000);
+    detector.update([speaking('a', 0.5)], 0);
+    detector.remove('a');
+    expect(detector.update([speaking('b', 0.3)], 100)).toBe('b');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mergeGlossaries, parseGlossary, planGlossary, protectTerms } from '../glossary';
+import { OptimizedTranslationService } from '../translation-service';
+import { DeepLProvider, MockTranslationProvider } from '../translation-providers';
+
+const glossary = parseGlossary({
+  terms: [
+    { sourceLang: 'en', targetLang: 'de', source: 'standup', target: 'Daily' },
+    { sourceLang: 'en', targetLang: 'fr', source: 'standup', target: 'point quotidien' }
+  ],
+  doNotTranslate: ['SupiChat']
+});
+
+describe('glossary', () => {
+  const realFetch = globalThis.fetch;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    globalThis.fetch = realFetch as any;
+  });
+
+  it('planGlossary keeps terms for the target language and every do-not-translate term', () => {
+    expect(planGlossary(glossary, 'DE')).toEqual({ terms: [{ source: 'standup', target: 'Daily' }], doNotTranslate: ['SupiChat'] });
+    expect(planGlossary(glossary, 'de', 'ja')).toEqual({ terms: [], doNotTranslate: ['SupiChat'] });
+    expect(planGlossary({ terms: [], doNotTranslate: [] }, 'de')).toBeUndefined();
+  });
+
+  it('protectTerms swaps whole-word matches for placeholders and restores them', () => {
+    const plan = planGlossary(glossary, 'de')!;
+    const { text, restore } = protectTerms('supichat standup at 9, not standups', plan);
+    expect(text).toBe('⟦0⟧ ⟦1⟧ at 9, not standups');
+    expect(restore('⟦0⟧ ⟦ 1 ⟧ um 9')).toBe('supichat Daily um 9');
+  });
+
+  it('mergeGlossaries lets room terms override org terms', () => {
+    const org = parseGlossary({ terms: [{ sourceLang: 'EN', targetLang: 'DE', source: 'Standup', target: 'Stand-up' }], doNotTranslate: ['Acme'] });
+    const merged = mergeGlossaries(org, glossary);
+    expect(merged.terms.filter(t => t.targetLang === 'DE')).toEqual([{ sourceLang: 'EN', targetLang: 'DE', source: 'standup', target: 'Daily' }]);
+    expect(merged.doNotTranslate).toEqual(['Acme', 'SupiChat']);
+  });
+
+  it('applies the glossary through placeholders when the provider has no native support', async () => {
+    const svc = new OptimizedTranslationService(new MockTranslationProvider());
+    expect(await svc.translate('SupiChat standup', 'de', undefined, glossary)).toBe('[DE] SupiChat Daily');
+  });
+
+  it('keys the cache on the glossary so edits are not served stale', async () => {
+    const provider = new MockTranslationProvider();
+    const spy = vi.spyOn(provider, 'translateBatch');
+    const svc = new OptimizedTranslationService(provider);
+    const edited = parseGlossary({ ...glossary, terms: [{ sourceLang: 'en', targetLang: 'de', source: 'standup', target: 'Stand-up' }] });
+
+    expect(await svc.translate('standup', 'de', undefined, glossary)).toBe('[DE] Daily');
+    expect(await svc.translate('standup', 'de', undefined, glossary)).toBe('[DE] Daily');
+    expect(await svc.translate('standup', 'de', undefined, edited)).toBe('[DE] Stand-up');
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it('DeepL protects do-not-translate terms with XML ignore tags', async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ translations: [{ text: 'Willkommen bei <keep>SupiChat</keep> &amp; Co' }] })
+    } as any));
+    globalThis.fetch = fetchMock as any;
+
+    const svc = new OptimizedTranslationService(new DeepLProvider('key'));
+    const plan = { terms: [], doNotTranslate: ['SupiChat'] };
+    expect(await svc.translate('Welcome to SupiChat & co', 'de', undefined, plan)).toBe('Willkommen bei SupiChat & Co');
+
+    const body = new URLSearchParams((fetchMock.mock.calls[0] as any[])[1].body);
+    expect(body.get('text')).toBe('Welcome to <keep>SupiChat</keep> &amp; co');
+    expect(body.get('tag_handling')).toBe('xml');
+    expect(body.get('ignore_tags')).toBe('keep');
+  });
+
+  it('DeepL keeps one glossary per owner and deletes the one an edit replaces', async () => {
+    let created = 0;
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => ({
+      ok: true,
+      json: async () => url.endsWith('/glossaries') ? { glossary_id: `g${++created}` } : { translations: [{ text: 'x' }] }
+    } as any));
+    globalThis.fetch = fetchMock as any;
+    const provider = new DeepLProvider('key', 'https://deepl.test/v2/translate');
+    const plan = (target: string, owner: string) => ({ terms: [{ source: 'standup', target }], doNotTranslate: [], owner });
+
+    await provider.translateBatch(['standup'], 'de', 'en', plan('Daily', 'room:a'));
+    await provider.translateBatch(['standup'], 'de', 'en', plan('Daily', 'room:a'));
+    await provider.translateBatch(['standup'], 'de', 'en', plan('Daily', 'room:b'));
+    await provider.translateBatch(['standup'], 'de', 'en', plan('Stand-up', 'room:a'));
+    await vi.waitFor(() => expect(fetchMock.mock.calls.some(([, init]) => init.method === 'DELETE')).toBe(true));
+
+    const calls = fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url}`);
+    expect(calls.filter(call => call === 'POST https://deepl.test/v2/glossaries')).toHaveLength(3);
+    expect(calls.filter(call => call.startsWith('DELETE'))).toEqual(['DELETE https://deepl.test/v2/glossaries/g1']);
+    const translations = fetchMock.mock.calls.filter(([url]) => url.endsWith('/translate'));
+    expect(translations.map(([, init]) => new URLSearchParams(init.body as string).get('glossary_id'))).toEqual(['g1', 'g1', 'g2', 'g3']);
+  });
+});
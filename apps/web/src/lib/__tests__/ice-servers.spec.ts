@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FALLBACK_ICE_SERVERS, IceServerCache } from '../ice-servers';
+
+const TURN = { urls: 'turn:turn.example.com', username: 'u', credential: 'c' };
+
+function respond(body: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 500, json: async () => body } as Response;
+}
+
+describe('IceServerCache', () => {
+  it('serves the fallback until the first fetch', () => {
+    const cache = new IceServerCache('/api/ice-servers', vi.fn());
+    expect(cache.current()).toBe(FALLBACK_ICE_SERVERS);
+  });
+
+  it('reuses credentials until they are close to expiry', async () => {
+    let now = 0;
+    const fetchImpl = vi.fn(async () => respond({ iceServers: [TURN], expiresAt: 60 * 60 * 1000 }));
+    const cache = new IceServerCache('/api/ice-servers', fetchImpl, () => now);
+
+    const first = await cache.get();
+    expect(first).toEqual([TURN]);
+    now = 54 * 60 * 1000;
+    expect(await cache.get()).toBe(first);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+
+    // Within five minutes of expiry
+    now = 55 * 60 * 1000;
+    await cache.get();
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    const fetchImpl = vi.fn(async () => respond({ iceServers: [TURN], expiresAt: null }));
+    const cache = new IceServerCache('/api/ice-servers', fetchImpl);
+
+    await Promise.all([cache.get(), cache.get(), cache.get()]);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the previous servers when a refresh fails', async () => {
+    let now = 0;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(respond({ iceServers: [TURN], expiresAt: 10 * 60 * 1000 }))
+      .mockResolvedValueOnce(respond({}, false));
+    const cache = new IceServerCache('/api/ice-servers', fetchImpl, () => now);
+
+    await cache.get();
+    now = 9 * 60 * 1000;
+    expect(await cache.get()).toEqual([TURN]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { acquireTrack, deviceConstraint, resolveDeviceId, setAudioOutput } from '../media-devices';
+
+const devices = [
+  { deviceId: 'builtin', kind: 'audioinput' },
+  { deviceId: 'headset', kind: 'audioinput' }
+] as MediaDeviceInfo[];
+
+describe('media devices', () => {
+  it('prefers a device without insisting on it unless asked', () => {
+    expect(deviceConstraint()).toBe(true);
+    expect(deviceConstraint('headset')).toEqual({ deviceId: { ideal: 'headset' } });
+    expect(deviceConstraint('headset', true)).toEqual({ deviceId: { exact: 'headset' } });
+  });
+
+  it('acquires exactly the chosen device', async () => {
+    const track = { kind: 'audio' };
+    const getUserMedia = vi.fn(async () => ({ getAudioTracks: () => [track], getVideoTracks: () => [] }));
+
+    expect(await acquireTrack('audio', 'headset', { getUserMedia } as unknown as MediaDevices)).toBe(track);
+    expect(getUserMedia).toHaveBeenCalledWith({ audio: { deviceId: { exact: 'headset' } } });
+  });
+
+  it('falls back when the device in use is unplugged and returns to the preferred one', () => {
+    const builtinOnly = devices.slice(0, 1);
+
+    expect(resolveDeviceId(builtinOnly, 'headset', 'headset')).toBeUndefined();
+    expect(resolveDeviceId(builtinOnly, 'headset', 'builtin')).toBe('builtin');
+    expect(resolveDeviceId(devices, 'headset', 'builtin')).toBe('headset');
+    expect(resolveDeviceId(devices, undefined, 'builtin')).toBe('builtin');
+  });
+
+  it('routes audio output only when it changes', async () => {
+    const element = { sinkId: '', setSinkId: vi.fn(async (id: string) => { element.sinkId = id; }) };
+
+    await setAudioOutput(element as any, 'speakers');
+    await setAudioOutput(element as any, 'speakers');
+    expect(element.setSinkId).toHaveBeenCalledTimes(1);
+
+    // Browsers without output selection are left alone
+    await expect(setAudioOutput({} as any, 'speakers')).resolves.toBeUndefined();
+  });
+});
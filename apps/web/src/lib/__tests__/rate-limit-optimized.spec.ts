@@ -36,4 +36,20 @@ describe('OptimizedRateLimiter (instances)', () => {
     expect(typeof stats.storeSize).toBe('number');
     expect(typeof stats.lastCleanup).toBe('string');
   });
-});
\ No newline at end of file
+
+  it('isInternalRequest only trusts the configured shared token', () => {
+    const req = (token?: string) => new Request('http://x/api/translate', {
+      headers: token ? { 'x-internal-token': token } : {}
+    });
+
+    vi.stubEnv('INTERNAL_API_TOKEN', '');
+    expect(RLO.isInternalRequest(req(''))).toBe(false);
+
+    vi.stubEnv('INTERNAL_API_TOKEN', 'secret');
+    expect(RLO.isInternalRequest(req('secret'))).toBe(true);
+    expect(RLO.isInternalRequest(req('wrong'))).toBe(false);
+    expect(RLO.isInternalRequest(req('secret-but-longer'))).toBe(false);
+    expect(RLO.isInternalRequest(req())).toBe(false);
+    vi.unstubAllEnvs();
+  });
+});
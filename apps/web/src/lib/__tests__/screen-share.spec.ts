@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { captureScreen, isScreenShareSupported } from '../screen-share';
+
+function fakeStream() {
+  const video = { kind: 'video', contentHint: '' };
+  return { video, stream: { getVideoTracks: () => [video] } as unknown as MediaStream };
+}
+
+function rejection(name: string) {
+  return Object.assign(new Error(name), { name });
+}
+
+describe('screen share', () => {
+  it('is supported only where getDisplayMedia exists', () => {
+    expect(isScreenShareSupported({ getDisplayMedia: vi.fn() } as unknown as MediaDevices)).toBe(true);
+    expect(isScreenShareSupported({} as MediaDevices)).toBe(false);
+    expect(isScreenShareSupported(undefined)).toBe(false);
+  });
+
+  it('asks for system audio and tunes the video for detail', async () => {
+    const { video, stream } = fakeStream();
+    const getDisplayMedia = vi.fn(async () => stream);
+
+    expect(await captureScreen({ getDisplayMedia } as unknown as MediaDevices)).toBe(stream);
+    expect(getDisplayMedia).toHaveBeenCalledWith(expect.objectContaining({ audio: true, systemAudio: 'include' }));
+    expect(video.contentHint).toBe('detail');
+  });
+
+  it('falls back to video only when audio capture is not supported', async () => {
+    const { stream } = fakeStream();
+    const getDisplayMedia = vi.fn()
+      .mockRejectedValueOnce(rejection('NotSupportedError'))
+      .mockResolvedValueOnce(stream);
+
+    expect(await captureScreen({ getDisplayMedia } as unknown as MediaDevices)).toBe(stream);
+    expect(getDisplayMedia).toHaveBeenLastCalledWith({ video: expect.any(Object) });
+  });
+
+  it('does not retry when the user cancels the picker', async () => {
+    const getDisplayMedia = vi.fn().mockRejectedValue(rejection('NotAllowedError'));
+
+    await expect(captureScreen({ getDisplayMedia } as unknown as MediaDevices)).rejects.toThrow('NotAllowedError');
+    expect(getDisplayMedia).toHaveBeenCalledTimes(1);
+  });
+});
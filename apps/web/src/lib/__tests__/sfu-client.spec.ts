@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SfuSession } from '../sfu-client';
+
+// Socket stand-in: acks come from `replies`, server pushes go through `push`
+function fakeSocket(replies: Record<string, (payload: any) => any>) {
+  const listeners = new Map<string, (data: any) => void>();
+  const requests: [string, any][] = [];
+  return {
+    requests,
+    push: (event: string, data: any) => listeners.get(event)?.(data),
+    on: vi.fn((event: string, fn: (data: any) => void) => listeners.set(event, fn)),
+    off: vi.fn((event: string) => listeners.delete(event)),
+    timeout: () => ({
+      emitWithAck: async (event: string, payload: any) => {
+        requests.push([event, payload]);
+        return replies[event]?.(payload) ?? {};
+      }
+    })
+  };
+}
+
+function fakeTransport(id: string) {
+  const handlers: Record<string, (...args: any[]) => void> = {};
+  return {
+    id,
+    on: (event: string, fn: (...args: any[]) => void) => { handlers[event] = fn; },
+    produce: async ({ track, appData }: any) => {
+      await new Promise<void>((resolve, reject) => handlers.connect({ dtlsParameters: { role: 'client' } }, resolve, reject));
+      const { id: producerId } = await new Promise<any>((resolve, reject) =>
+        handlers.produce({ kind: track.kind, rtpParameters: {}, appData }, resolve, reject)
+      );
+      return { id: producerId, close: vi.fn(), replaceTrack: vi.fn(async () => {}) };
+    },
+    consume: async ({ id: consumerId, producerId, kind }: any) => ({
+      id: consumerId,
+      track: { id: `track-${producerId}`, kind },
+      close: vi.fn()
+    }),
+    close: vi.fn()
+  };
+}
+
+function fakeDevice() {
+  return {
+    load: vi.fn(async () => {}),
+    rtpCapabilities: { codecs: [] },
+    canProduce: () => true,
+    createRecvTransport: ({ id }: any) => fakeTransport(id),
+    createSendTransport: ({ id }: any) => fakeTransport(id)
+  };
+}
+
+const replies = {
+  'sfu:capabilities': () => ({ rtpCapabilities: { codecs: ['opus'] } }),
+  'sfu:create-transport': ({ direction }: any) => ({ id: `${direction}-t`, iceParameters: {}, iceCandidates: [], dtlsParameters: {} }),
+  'sfu:produce': ({ kind }: any) => ({ id: `mine-${kind}` }),
+  'sfu:producers': () => ({ producers: [{ producerId: 'p1', peerId: 'alice', kind: 'video' }] }),
+  'sfu:consume': ({ producerId }: any) => ({ id: `c-${producerId}`, producerId, kind: 'video', rtpParameters: {} })
+};
+
+const localStream = { getTracks: () => [{ id: 'mic', kind: 'audio' }, { id: 'cam', kind: 'video' }] } as any;
+
+describe('SFU session', () => {
+  it('publishes local tracks and subscribes to existing producers', async () => {
+    const socket = fakeSocket(replies);
+    const device = fakeDevice();
+    const onTrack = vi.fn();
+    const session = new SfuSession(socket as any, 'room-1', { onTrack }, [], () => device as any);
+
+    await session.start(localStream);
+
+    expect(device.load).toHaveBeenCalledWith({ routerRtpCapabilities: { codecs: ['opus'] } });
+    const events = socket.requests.map(([event]) => event);
+    expect(events.filter(e => e === 'sfu:produce')).toHaveLength(2);
+    expect(socket.requests.find(([e]) => e === 'sfu:connect-transport')?.[1]).toMatchObject({ roomId: 'room-1', transportId: 'send-t' });
+    expect(onTrack).toHaveBeenCalledWith('alice', { id: 'track-p1', kind: 'video' }, 'camera');
+    // Resumed only after the track was handed over
+    expect(events.slice(-2)).toEqual(['sfu:consume', 'sfu:resume-consumer']);
+  });
+
+  it('follows producers appearing and disappearing after start', async () => {
+    const socket = fakeSocket({ ...replies, 'sfu:producers': () => ({ producers: [] }) });
+    const onTrack = vi.fn();
+    const onTrackEnded = vi.fn();
+    const session = new SfuSession(socket as any, 'room-1', { onTrack, onTrackEnded }, [], () => fakeDevice() as any);
+    await session.start(null);
+    expect(socket.requests.some(([e]) => e === 'sfu:produce')).toBe(false);
+
+    socket.push('sfu:new-producer', { producerId: 'p2', peerId: 'bob', kind: 'audio' });
+    socket.push('sfu:new-producer', { producerId: 'p2', peerId: 'bob', kind: 'audio' });
+    await vi.waitFor(() => expect(onTrack).toHaveBeenCalledTimes(1));
+    expect(socket.requests.filter(([e]) => e === 'sfu:consume')).toHaveLength(1);
+
+    socket.push('sfu:consumer-closed', { consumerId: 'c-p2', producerId: 'p2' });
+    expect(onTrackEnded).toHaveBeenCalledWith('bob', expect.objectContaining({ id: 'track-p2' }));
+
+    session.close();
+    expect(socket.off).toHaveBeenCalledWith('sfu:new-producer', expect.any(Function));
+  });
+
+  it('publishes a screen share mid-call and reports remote ones by source', async () => {
+    const socket = fakeSocket({ ...replies, 'sfu:producers': () => ({ producers: [] }) });
+    const onTrack = vi.fn();
+    const session = new SfuSession(socket as any, 'room-1', { onTrack }, [], () => fakeDevice() as any);
+    await session.start(null);
+
+    const screen = { id: 'screen', kind: 'video' } as any;
+    await session.publish(screen, 'screen');
+    expect(socket.requests.find(([e]) => e === 'sfu:produce')?.[1]).toMatchObject({ appData: { source: 'screen' } });
+
+    await session.unpublish(screen);
+    expect(socket.requests.at(-1)).toEqual(['sfu:close-producer', { roomId: 'room-1', producerId: 'mine-video' }]);
+
+    socket.push('sfu:new-producer', { producerId: 'p3', peerId: 'carol', kind: 'video', source: 'screen' });
+    await vi.waitFor(() => expect(onTrack).toHaveBeenCalledWith('carol', expect.objectContaining({ id: 'track-p3' }), 'screen'));
+  });
+
+  it('switches devices on the existing producer', async () => {
+    const socket = fakeSocket({ ...replies, 'sfu:producers': () => ({ producers: [] }) });
+    const session = new SfuSession(socket as any, 'room-1', { onTrack: vi.fn() }, [], () => fakeDevice() as any);
+    const camera = { id: 'cam-1', kind: 'video' } as any;
+    await session.start({ getTracks: () => [camera] } as any);
+
+    const nextCamera = { id: 'cam-2', kind: 'video' } as any;
+    await session.replaceTrack(camera, nextCamera);
+    await session.unpublish(nextCamera);
+
+    expect(socket.requests.filter(([e]) => e === 'sfu:produce')).toHaveLength(1);
+    expect(socket.requests.at(-1)).toEqual(['sfu:close-producer', { roomId: 'room-1', producerId: 'mine-video' }]);
+  });
+
+  it('surfaces server errors', async () => {
+    const socket = fakeSocket({ 'sfu:capabilities': () => ({ error: 'SFU is not active in this room' }) });
+    const session = new SfuSession(socket as any, 'room-1', { onTrack: vi.fn() }, [], () => fakeDevice() as any);
+    await expect(session.start(null)).rejects.toThrow('SFU is not active in this room');
+  });
+});
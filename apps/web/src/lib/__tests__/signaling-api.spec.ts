@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createRoom, getRoom, listMessages, putRoomGlossary, getSignalingInternalUrl, signalingErrorResponse, SignalingApiError } from '../signaling-api';
+
+describe('signaling API client', () => {
+  const realFetch = globalThis.fetch;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    globalThis.fetch = realFetch as any;
+  });
+
+  it('uses SIGNALING_INTERNAL_URL without trailing slash', () => {
+    vi.stubEnv('SIGNALING_INTERNAL_URL', 'http://signaling:4001/');
+    expect(getSignalingInternalUrl()).toBe('http://signaling:4001');
+  });
+
+  it('createRoom posts input and returns the room record', async () => {
+    const room = { id: 'r1', createdAt: 1, expiresAt: 2, maxParticipants: 8, title: 'Standup' };
+    const fetchMock = vi.fn(async () => ({ ok: true, status: 201, json: async () => room } as any));
+    globalThis.fetch = fetchMock as any;
+
+    const res = await createRoom({ title: 'Standup' });
+    expect(res).toEqual(room);
+    const [url, init] = fetchMock.mock.calls[0] as any[];
+    expect(url).toMatch(/\/rooms$/);
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual({ title: 'Standup' });
+  });
+
+  it('authenticates to the signaling service with the internal token', async () => {
+    vi.stubEnv('INTERNAL_API_TOKEN', 'internal-secret');
+    const fetchMock = vi.fn(async () => ({ ok: true, status: 200, json: async () => ({ messages: [], hasMore: false }) } as any));
+    globalThis.fetch = fetchMock as any;
+
+    await listMessages('r1');
+    const [, init] = fetchMock.mock.calls[0] as any[];
+    expect(init.headers['X-Internal-Token']).toBe('internal-secret');
+  });
+
+  it('getRoom surfaces status and typed error code', async () => {
+    globalThis.fetch = vi.fn(async () => ({
+      ok: false,
+      status: 410,
+      json: async () => ({ error: 'Room has expired', code: 'ROOM_EXPIRED' }),
+    } as any)) as any;
+
+    const err = await getRoom('old').catch(e => e);
+    expect(err).toBeInstanceOf(SignalingApiError);
+    expect(err.status).toBe(410);
+    expect(err.code).toBe('ROOM_EXPIRED');
+
+    const response = signalingErrorResponse(err);
+    expect(response.status).toBe(410);
+    expect(await response.json()).toEqual({ error: 'Room has expired', code: 'ROOM_EXPIRED' });
+  });
+
+  it('listMessages forwards the paging cursor', async () => {
+    const fetchMock = vi.fn(async () => ({ ok: true, status: 200, json: async () => ({ messages: [], hasMore: false }) } as any));
+    globalThis.fetch = fetchMock as any;
+
+    const page = await listMessages('r1', { before: '42', limit: '20' });
+    expect(page).toEqual({ messages: [], hasMore: false });
+    expect((fetchMock.mock.calls[0] as any[])[0]).toMatch(/\/rooms\/r1\/messages\?before=42&limit=20$/);
+  });
+
+  it('putRoomGlossary sends the host key header', async () => {
+    const glossary = { terms: [], doNotTranslate: ['SupiChat'], updatedAt: 1 };
+    const fetchMock = vi.fn(async () => ({ ok: true, status: 200, json: async () => glossary } as any));
+    globalThis.fetch = fetchMock as any;
+
+    expect(await putRoomGlossary('r1', { doNotTranslate: ['SupiChat'] }, 'secret')).toEqual(glossary);
+    const [url, init] = fetchMock.mock.calls[0] as any[];
+    expect(url).toMatch(/\/rooms\/r1\/glossary$/);
+    expect(init.method).toBe('PUT');
+    expect(init.headers['X-Host-Key']).toBe('secret');
+  });
+
+  it('maps network failures to 502', async () => {
+    globalThis.fetch = vi.fn(async () => { throw new Error('ECONNREFUSED'); }) as any;
+    const err = await getRoom('r1').catch(e => e);
+    expect(err).toBeInstanceOf(SignalingApiError);
+    expect(err.status).toBe(502);
+  });
+});
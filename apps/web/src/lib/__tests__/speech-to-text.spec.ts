@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createSpeechToTextProvider,
+  MockSpeechProvider,
+  WebSpeechProvider,
+  type SpeechSegment
+} from '../speech-to-text';
+
+describe('speech-to-text providers', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('createSpeechToTextProvider selects the engine by name', () => {
+    expect(createSpeechToTextProvider('webspeech')).toBeInstanceOf(WebSpeechProvider);
+    expect(createSpeechToTextProvider('MOCK')).toBeInstanceOf(MockSpeechProvider);
+    expect(createSpeechToTextProvider('off')).toBeNull();
+    expect(() => createSpeechToTextProvider('whisper')).toThrow(/Unknown NEXT_PUBLIC_STT_PROVIDER/);
+  });
+
+  it('web speech is unsupported outside a browser', () => {
+    const onError = vi.fn();
+    const provider = new WebSpeechProvider();
+    expect(provider.isSupported()).toBe(false);
+    provider.start({ lang: 'en', onSegment: vi.fn(), onError });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringMatching(/not supported/) }));
+  });
+
+  it('mock engine sends an interim then a final segment per scripted line', () => {
+    vi.useFakeTimers();
+    const segments: SpeechSegment[] = [];
+    const provider = new MockSpeechProvider(['hello there everyone', 'bye'], 1000);
+
+    provider.start({ lang: 'de', onSegment: s => segments.push(s) });
+    vi.advanceTimersByTime(2000);
+    provider.stop();
+    vi.advanceTimersByTime(2000);
+
+    expect(segments.map(({ id, text, final, lang }) => ({ id, text, final, lang }))).toEqual([
+      { id: 'mock-1', text: 'hello there', final: false, lang: 'de' },
+      { id: 'mock-1', text: 'hello there everyone', final: true, lang: 'de' },
+      { id: 'mock-2', text: 'bye', final: false, lang: 'de' },
+      { id: 'mock-2', text: 'bye', final: true, lang: 'de' }
+    ]);
+    expect(segments[0].startedAt).toBe(segments[1].startedAt);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildTranscript, formatTranscript, translateTranscript, transcriptFileName, isTranscriptFormat } from '../transcript';
+import type { RoomTranscript } from '../signaling-api';
+
+const T0 = Date.UTC(2024, 0, 1, 9, 0, 0);
+
+const data: RoomTranscript = {
+  room: { id: 'room-1', title: 'Standup', createdAt: T0 - 1000, expiresAt: T0 + 3600000, maxParticipants: 8 },
+  messages: [
+    { id: 'm1', roomId: 'room-1', seq: 1, ts: T0 + 5000, name: 'Alice', msg: 'Hello everyone', lang: 'en' },
+    { id: 'm2', roomId: 'room-1', seq: 2, ts: T0 + 20000, name: 'Bernd', msg: 'Guten Morgen', lang: 'en' }
+  ],
+  events: [
+    { id: 'e1', roomId: 'room-1', seq: 1, ts: T0, type: 'join', name: 'Alice', lang: 'en' },
+    { id: 'e2', roomId: 'room-1', seq: 2, ts: T0 + 9500, type: 'caption', name: 'Bernd', text: 'Wir fangen an', lang: 'de', startedAt: T0 + 7000 },
+    { id: 'e3', roomId: 'room-1', seq: 3, ts: T0 + 60000, type: 'leave', name: 'Bernd' }
+  ]
+};
+
+// Stand-in backend that "detects" German by the word "Guten"
+const translate = vi.fn(async (texts: string[], targetLang: string, sourceLang?: string) =>
+  texts.map(text => ({ text: `[${targetLang}] ${text}`, detectedLang: sourceLang ?? (text.startsWith('Guten') ? 'DE' : 'EN') }))
+);
+
+describe('meeting transcripts', () => {
+  it('merges chat, captions and events in time order', () => {
+    const t = buildTranscript(data);
+    expect(t.startedAt).toBe(T0);
+    expect(t.entries.map(e => [e.kind, e.speaker, e.start - T0])).toEqual([
+      ['join', 'Alice', 0],
+      ['chat', 'Alice', 5000],
+      ['caption', 'Bernd', 7000],
+      ['chat', 'Bernd', 20000],
+      ['leave', 'Bernd', 60000]
+    ]);
+    expect(t.entries[2].end - T0).toBe(9500);
+  });
+
+  it('translates chat with detection and captions from their spoken language', async () => {
+    translate.mockClear();
+    const t = await translateTranscript(buildTranscript(data), 'en', translate);
+
+    expect(translate).toHaveBeenCalledWith(['Hello everyone', 'Guten Morgen'], 'en', undefined);
+    expect(translate).toHaveBeenCalledWith(['Wir fangen an'], 'en', 'de');
+    expect(t.lang).toBe('en');
+    expect(t.entries.map(e => e.translated)).toEqual([undefined, undefined, '[en] Wir fangen an', '[en] Guten Morgen', undefined]);
+    expect(t.entries[3].lang).toBe('DE');
+  });
+
+  it('skips captions already in the transcript language', async () => {
+    translate.mockClear();
+    await translateTranscript(buildTranscript(data), 'de', translate);
+    expect(translate).toHaveBeenCalledTimes(1);
+    expect(translate).toHaveBeenCalledWith(['Hello everyone', 'Guten Morgen'], 'de', undefined);
+  });
+
+  it('renders SRT cues with relative timestamps, clipped to the next cue', async () => {
+    const srt = formatTranscript(await translateTranscript(buildTranscript(data), 'en', translate), 'srt');
+    expect(srt.split('\n\n').slice(0, 3)).toEqual([
+      '1\n00:00:00,000 --> 00:00:04,000\nAlice joined',
+      '2\n00:00:05,000 --> 00:00:07,000\nAlice: Hello everyone',
+      '3\n00:00:07,000 --> 00:00:09,500\nBernd: [en] Wir fangen an'
+    ]);
+  });
+
+  it('renders WebVTT with voice tags and escaped text', () => {
+    const t = buildTranscript({ ...data, messages: [{ ...data.messages[0], msg: 'a <b> & c' }], events: [] });
+    expect(formatTranscript(t, 'vtt')).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:04.000\n<v Alice>a &lt;b&gt; &amp; c\n');
+  });
+
+  it('renders text and markdown with the original under each translation', async () => {
+    const t = await translateTranscript(buildTranscript(data), 'en', translate);
+
+    const txt = formatTranscript(t, 'txt');
+    expect(txt).toContain('Meeting transcript: Standup\nStarted: 2024-01-01T09:00:00.000Z\nLanguage: EN\n');
+    expect(txt).toContain('[00:00:07] Bernd (spoken): [en] Wir fangen an\n    Original (DE): Wir fangen an\n');
+    expect(txt).toContain('[00:01:00] Bernd left');
+
+    const md = formatTranscript(t, 'md');
+    expect(md).toContain('# Meeting transcript: Standup');
+    expect(md).toContain('- `00:00:20` **Bernd:** [en] Guten Morgen\n  _Original (DE): Guten Morgen_');
+    expect(md).toContain('- `00:00:00` _Alice joined_');
+  });
+
+  it('exports JSON and names files by room and language', async () => {
+    const t = await translateTranscript(buildTranscript(data), 'de', translate);
+    expect(JSON.parse(formatTranscript(t, 'json'))).toMatchObject({ roomId: 'room-1', lang: 'de', entries: expect.any(Array) });
+    expect(transcriptFileName(t, 'vtt')).toBe('transcript-room-1-de.vtt');
+    expect(transcriptFileName(buildTranscript(data), 'txt')).toBe('transcript-room-1.txt');
+    expect(isTranscriptFormat('srt')).toBe(true);
+    expect(isTranscriptFormat('docx')).toBe(false);
+  });
+});
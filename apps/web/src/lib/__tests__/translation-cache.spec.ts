@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, afterEach, beforeAll, afterAll } from 'vitest';
+import net from 'net';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryCacheStore, FileCacheStore, RedisCacheStore, createTranslationCacheStore } from '../translation-cache';
+import { parseReply, RespClient } from '../resp-client';
+import { OptimizedTranslationService } from '../translation-service';
+import { MockTranslationProvider } from '../translation-providers';
+
+// Just enough of the Redis protocol to stand in for a real server
+function startRespStandIn(): Promise<{ server: net.Server; url: string }> {
+  const data = new Map<string, string>();
+  const lists = new Map<string, string[]>();
+  const bulk = (v: string | null) => v == null ? '$-1\r\n' : `$${Buffer.byteLength(v)}\r\n${v}\r\n`;
+  const array = (items: (string | null)[]) => `*${items.length}\r\n${items.map(bulk).join('')}`;
+
+  const server = net.createServer(socket => {
+    let buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed = parseReply(buffer);
+      while (parsed) {
+        const [cmd, ...args] = parsed.value as string[];
+        buffer = buffer.subarray(parsed.next);
+        const list = lists.get(args[0]) ?? [];
+        switch (cmd.toUpperCase()) {
+          case 'GET': socket.write(bulk(data.get(args[0]) ?? null)); break;
+          case 'MGET': socket.write(array(args.map(k => data.get(k) ?? null))); break;
+          case 'SET': data.set(args[0], args[1]); socket.write('+OK\r\n'); break;
+          case 'LPUSH': list.unshift(args[1]); lists.set(args[0], list); socket.write(`:${list.length}\r\n`); break;
+          case 'LTRIM': lists.set(args[0], list.slice(0, Number(args[2]) + 1)); socket.write('+OK\r\n'); break;
+          case 'LRANGE': socket.write(array(list.slice(Number(args[1]), Number(args[2]) + 1))); break;
+          case 'DEL': socket.write(`:${Number(lists.delete(args[0]) || data.delete(args[0]))}\r\n`); break;
+          default: socket.write(`-ERR unknown command '${cmd}'\r\n`);
+        }
+        parsed = buffer.length ? parseReply(buffer) : null;
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve({ server, url: `redis://127.0.0.1:${(server.address() as net.AddressInfo).port}` });
+  }));
+}
+
+describe('translation cache stores', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('MemoryCacheStore expires entries and evicts the oldest writes', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryCacheStore({ ttlMs: 1000, maxEntries: 2 });
+    await store.set('a', { text: 'A' });
+    await store.set('b', { text: 'B' });
+    await store.set('c', { text: 'C' });
+    expect(await store.getMany(['a', 'b', 'c'])).toEqual([undefined, { text: 'B' }, { text: 'C' }]);
+    expect(await store.recent(10)).toEqual([['c', { text: 'C' }], ['b', { text: 'B' }]]);
+
+    vi.advanceTimersByTime(1001);
+    expect(await store.get('c')).toBeUndefined();
+  });
+
+  it('FileCacheStore survives a restart', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'tx-cache-'));
+    try {
+      const file = join(dir, 'cache.json');
+      const first = new FileCacheStore(file);
+      await first.set('hello:DE', { text: 'hallo', detectedLang: 'EN' });
+      await first.save();
+
+      const second = new FileCacheStore(file);
+      expect(await second.get('hello:DE')).toEqual({ text: 'hallo', detectedLang: 'EN' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('createTranslationCacheStore is off unless configured', () => {
+    expect(createTranslationCacheStore({} as any)).toBeUndefined();
+    expect(createTranslationCacheStore({ TRANSLATION_CACHE_STORE: 'memory' } as any)).toBeInstanceOf(MemoryCacheStore);
+    expect(() => createTranslationCacheStore({ TRANSLATION_CACHE_STORE: 'sqlite' } as any)).toThrow(/Unknown TRANSLATION_CACHE_STORE/);
+  });
+
+  describe('RedisCacheStore', () => {
+    let standIn: { server: net.Server; url: string };
+    let store: RedisCacheStore;
+
+    beforeAll(async () => {
+      standIn = await startRespStandIn();
+      store = new RedisCacheStore(standIn.url);
+    });
+
+    afterAll(async () => {
+      store.close();
+      await new Promise(resolve => standIn.server.close(resolve));
+    });
+
+    it('round-trips entries and lists recent keys newest first', async () => {
+      await store.set('hello:DE', { text: 'hallo', detectedLang: 'EN' });
+      await store.set('world:DE', { text: 'welt' });
+
+      expect(await store.get('hello:DE')).toEqual({ text: 'hallo', detectedLang: 'EN' });
+      expect(await store.getMany(['missing', 'world:DE'])).toEqual([undefined, { text: 'welt' }]);
+      expect((await store.recent(10)).map(([key]) => key)).toEqual(['world:DE', 'hello:DE']);
+    });
+  });
+});
+
+describe('RespClient', () => {
+  it('gives up on a connection that never completes and reconnects on the next command', async () => {
+    // The first connection swallows AUTH without answering; later ones answer everything
+    let connections = 0;
+    const server = net.createServer(socket => {
+      if (connections++ === 0) socket.resume();
+      else socket.on('data', () => socket.write('+OK\r\n'));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    const client = new RespClient(`redis://:secret@127.0.0.1:${port}`, { connectTimeoutMs: 50 });
+    try {
+      await expect(client.command('PING')).rejects.toThrow('Connect timed out');
+      expect(await client.command('PING')).toBe('OK');
+      expect(connections).toBe(2);
+    } finally {
+      client.close();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('OptimizedTranslationService with a shared cache', () => {
+  it('answers in-process misses from the shared store and writes new results to it', async () => {
+    const shared = new MemoryCacheStore();
+    await shared.set('hello:DE', { text: 'hallo (shared)' });
+    const provider = new MockTranslationProvider();
+    const spy = vi.spyOn(provider, 'translate');
+
+    const svc = new OptimizedTranslationService(provider, { sharedCache: shared });
+    expect(await svc.translate('hello', 'DE')).toBe('hallo (shared)');
+    expect(spy).not.toHaveBeenCalled();
+    expect(svc.getStats().sharedCacheHits).toBe(1);
+
+    expect(await svc.translate('bye', 'DE')).toBe('[DE] bye');
+    await vi.waitFor(async () => expect(await shared.get('bye:DE')).toEqual({ text: '[DE] bye' }));
+  });
+
+  it('warmUp preloads recent shared entries so a fresh replica starts hot', async () => {
+    const shared = new MemoryCacheStore();
+    await shared.set('hello:DE', { text: 'hallo' });
+    const provider = new MockTranslationProvider();
+    const batchSpy = vi.spyOn(provider, 'translateBatch');
+
+    const svc = new OptimizedTranslationService(provider, { sharedCache: shared });
+    expect(await svc.warmUp()).toBe(1);
+    expect(await svc.translateBatch(['hello', 'bye'], 'DE')).toEqual(['hallo', '[DE] bye']);
+    expect(svc.getStats().cacheHits).toBe(1);
+    expect(batchSpy).toHaveBeenCalledWith(['bye'], 'DE', undefined);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createTranslationProvider,
+  DeepLProvider,
+  LibreTranslateProvider,
+  MockTranslationProvider
+} from '../translation-providers';
+import { OptimizedTranslationService } from '../translation-service';
+
+describe('translation providers', () => {
+  const realFetch = globalThis.fetch;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    globalThis.fetch = realFetch as any;
+  });
+
+  it('createTranslationProvider selects the backend from TRANSLATION_PROVIDER', () => {
+    expect(createTranslationProvider({} as any)).toBeInstanceOf(DeepLProvider);
+    expect(createTranslationProvider({ TRANSLATION_PROVIDER: 'LibreTranslate' } as any)).toBeInstanceOf(LibreTranslateProvider);
+    expect(createTranslationProvider({ TRANSLATION_PROVIDER: 'mock' } as any)).toBeInstanceOf(MockTranslationProvider);
+    expect(() => createTranslationProvider({ TRANSLATION_PROVIDER: 'babelfish' } as any)).toThrow(/Unknown TRANSLATION_PROVIDER/);
+  });
+
+  it('DeepL is only configured with an API key', () => {
+    expect(new DeepLProvider('').isConfigured()).toBe(false);
+    expect(new DeepLProvider('key').isConfigured()).toBe(true);
+  });
+
+  it('DeepL reports the detected source language', async () => {
+    globalThis.fetch = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ translations: [{ detected_source_language: 'EN', text: 'Hallo' }] })
+    } as any)) as any;
+
+    expect(await new DeepLProvider('key').translate('Hello', 'de')).toEqual({ text: 'Hallo', detectedLang: 'EN' });
+  });
+
+  it('LibreTranslate posts JSON with lower-case base language codes', async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ translatedText: 'olá', detectedLanguage: { confidence: 90, language: 'en' } })
+    } as any));
+    globalThis.fetch = fetchMock as any;
+
+    const provider = new LibreTranslateProvider('http://lt:5000/', 'secret');
+    expect(await provider.translate(' hello ', 'PT-BR')).toEqual({ text: 'olá', detectedLang: 'en' });
+
+    const [url, init] = fetchMock.mock.calls[0] as any[];
+    expect(url).toBe('http://lt:5000/translate');
+    expect(JSON.parse(init.body)).toEqual({ q: 'hello', source: 'auto', target: 'pt', format: 'text', api_key: 'secret' });
+  });
+
+  it('LibreTranslate surfaces HTTP errors', async () => {
+    globalThis.fetch = vi.fn(async () => ({ ok: false, status: 400, text: async () => 'bad lang' } as any)) as any;
+    await expect(new LibreTranslateProvider('http://lt:5000').translate('hi', 'xx')).rejects.toThrow(
+      'Translation request failed: 400 - bad lang'
+    );
+  });
+
+  it('mock provider is deterministic and needs no network', async () => {
+    const fetchMock = vi.fn();
+    globalThis.fetch = fetchMock as any;
+
+    const svc = new OptimizedTranslationService(new MockTranslationProvider());
+    expect(await svc.translate('hello', 'de')).toBe('[DE] hello');
+    expect(await svc.translate('hello', 'de')).toBe('[DE] hello');
+    expect(svc.getStats().cacheHits).toBe(1);
+    expect(svc.providerName).toBe('mock');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('translateWithDetection caches the detected language with the text', async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ translations: [{ detected_source_language: 'EN', text: 'Hallo' }] })
+    } as any));
+    globalThis.fetch = fetchMock as any;
+
+    const svc = new OptimizedTranslationService('key');
+    expect(await svc.translateWithDetection('Hello', 'DE')).toEqual({ text: 'Hallo', detectedLang: 'EN' });
+    expect(await svc.translateWithDetection('hello', 'DE')).toEqual({ text: 'Hallo', detectedLang: 'EN' });
+    expect(await svc.translate('hello', 'DE')).toBe('Hallo');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
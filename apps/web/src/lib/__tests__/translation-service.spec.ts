@@ -93,18 +93,48 @@ describe('OptimizedTranslationService', () => {
   });
 
   it('translateBatch returns correct order with duplicate inputs', async () => {
-    // Lines 220-229: batch translation with deduplication
+    // One upstream request carrying each unique text once
     const svc = new OptimizedTranslationService('key');
     const fetchMock = vi.fn()
-      .mockResolvedValueOnce({ ok: true, json: async () => ({ translations: [{ text: 'hallo' }] }) })
-      .mockResolvedValueOnce({ ok: true, json: async () => ({ translations: [{ text: 'welt' }] }) });
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ translations: [{ text: 'hallo' }, { text: 'welt' }] }) });
     globalThis.fetch = fetchMock as any;
 
     const texts = ['hello', 'world', 'hello']; // duplicate 'hello'
     const results = await svc.translateBatch(texts, 'de');
     
     expect(results).toEqual(['hallo', 'welt', 'hallo']);
-    expect(fetchMock).toHaveBeenCalledTimes(2); // only 2 unique requests
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(new URLSearchParams((fetchMock.mock.calls[0] as any[])[1].body).getAll('text')).toEqual(['hello', 'world']);
+  });
+
+  it('translateBatch only sends cache misses and caches each item', async () => {
+    const svc = new OptimizedTranslationService('key');
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ translations: [{ text: 'hallo' }] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ translations: [{ text: 'welt' }] }) });
+    globalThis.fetch = fetchMock as any;
+
+    await svc.translate('hello', 'de');
+    expect(await svc.translateBatch(['hello', 'world', ''], 'de')).toEqual(['hallo', 'welt', '']);
+    expect(new URLSearchParams((fetchMock.mock.calls[1] as any[])[1].body).getAll('text')).toEqual(['world']);
+
+    expect(await svc.translate('world', 'de')).toBe('welt');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('translateBatch chunks requests at the provider item limit', async () => {
+    const svc = new OptimizedTranslationService('key');
+    const fetchMock = vi.fn(async (_url, options) => {
+      const texts = new URLSearchParams(options?.body as string).getAll('text');
+      return { ok: true, json: async () => ({ translations: texts.map(text => ({ text: `t_${text}` })) }) };
+    });
+    globalThis.fetch = fetchMock as any;
+
+    const texts = Array.from({ length: 120 }, (_, i) => `line ${i}`);
+    const results = await svc.translateBatch(texts, 'de');
+
+    expect(results).toEqual(texts.map(text => `t_${text}`));
+    expect(fetchMock).toHaveBeenCalledTimes(3); // 50 + 50 + 20
   });
 
   it('cache eviction under pressure maintains size limit', async () => {
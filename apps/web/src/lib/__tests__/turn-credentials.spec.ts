@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildIceServers, createTurnCredentials } from '../turn-credentials';
+
+const NOW = 1700000000 * 1000;
+
+describe('createTurnCredentials', () => {
+  it('follows the coturn REST API scheme', () => {
+    // Reference value: printf '1700003600:supichat' | openssl dgst -sha1 -hmac s3cret -binary | base64
+    expect(createTurnCredentials('s3cret', 3600, 'supichat', NOW)).toEqual({
+      username: '1700003600:supichat',
+      credential: 'y+BeNzmOQpdtc9SVLRWArL7lgV0=',
+      expiresAt: 1700003600 * 1000
+    });
+  });
+});
+
+describe('buildIceServers', () => {
+  it('returns STUN only without a TURN secret', () => {
+    expect(buildIceServers({ TURN_URLS: 'turn:turn.example.com:3478' } as any, NOW)).toEqual({
+      iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+      expiresAt: null
+    });
+  });
+
+  it('adds TURN with fresh credentials when configured', () => {
+    const { iceServers, expiresAt } = buildIceServers({
+      STUN_URLS: 'stun:a.example.com, stun:b.example.com',
+      TURN_URLS: 'turn:turn.example.com:3478?transport=udp,turns:turn.example.com:5349',
+      TURN_SECRET: 's3cret',
+      TURN_CREDENTIAL_TTL: '600'
+    } as any, NOW);
+
+    expect(iceServers[0]).toEqual({ urls: ['stun:a.example.com', 'stun:b.example.com'] });
+    expect(iceServers[1]).toMatchObject({
+      urls: ['turn:turn.example.com:3478?transport=udp', 'turns:turn.example.com:5349'],
+      username: '1700000600:supichat'
+    });
+    expect(expiresAt).toBe(NOW + 600 * 1000);
+  });
+
+  it('keeps the credential lifetime within bounds', () => {
+    const env = { TURN_URLS: 'turn:t', TURN_SECRET: 'x', TURN_CREDENTIAL_TTL: '1' } as any;
+    expect(buildIceServers(env, NOW).expiresAt).toBe(NOW + 60 * 1000);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createPeerConnection, addLocalTracks } from '../webrtc';
+import { createPeerConnection, addLocalTracks, PeerSession, isPolite } from '../webrtc';
 
 // Mock RTCPeerConnection for testing
 const mockPeerConnection = {
@@ -53,4 +53,246 @@ describe('WebRTC utilities', () => {
     expect(mockStream.getTracks).toHaveBeenCalled();
     expect(mockPeerConnection.addTrack).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+});
+
+// Just enough of RTCPeerConnection's signaling state machine to exercise negotiation
+class FakePeerConnection {
+  signalingState: RTCSignalingState = 'stable';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  connectionState: RTCPeerConnectionState = 'new';
+  localDescription: any = null;
+  remoteDescription: any = null;
+  onnegotiationneeded: (() => void) | null = null;
+  onicecandidate: ((e: any) => void) | null = null;
+  ontrack: ((e: any) => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  senders: any[] = [];
+  addIceCandidate = vi.fn(async () => {});
+  restartIce = vi.fn();
+  close = vi.fn();
+
+  setIceState(state: RTCIceConnectionState) {
+    this.iceConnectionState = state;
+    this.oniceconnectionstatechange?.();
+  }
+
+  async setLocalDescription(desc?: { type: string }) {
+    if (desc?.type === 'rollback') {
+      this.signalingState = 'stable';
+      this.localDescription = null;
+      return;
+    }
+    const type = this.signalingState === 'have-remote-offer' ? 'answer' : 'offer';
+    this.localDescription = { type, sdp: `local-${type}`, toJSON: () => ({ type, sdp: `local-${type}` }) };
+    this.signalingState = type === 'offer' ? 'have-local-offer' : 'stable';
+  }
+
+  async setRemoteDescription(desc: RTCSessionDescriptionInit) {
+    if (desc.type === 'offer' && this.signalingState !== 'stable') throw new Error('InvalidStateError');
+    this.remoteDescription = desc;
+    this.signalingState = desc.type === 'offer' ? 'have-remote-offer' : 'stable';
+  }
+
+  addTrack(track: any) {
+    const sender = { track, replaceTrack: vi.fn(async (next: any) => { sender.track = next; }) };
+    this.senders.push(sender);
+    return sender;
+  }
+
+  getSenders() {
+    return this.senders;
+  }
+}
+
+describe('PeerSession', () => {
+  let pc: FakePeerConnection;
+  let sent: any[];
+
+  let states: string[];
+
+  function createSession(polite: boolean, localStream?: any) {
+    pc = new FakePeerConnection();
+    sent = [];
+    states = [];
+    return new PeerSession({
+      peerId: 'remote',
+      polite,
+      iceServers: [],
+      localStream,
+      sendSignal: data => sent.push(data),
+      onConnectionStateChange: state => states.push(state),
+      iceRestart: { graceMs: 100, baseDelayMs: 1000, maxDelayMs: 4000, maxAttempts: 3 },
+      createPeerConnection: () => pc as any
+    });
+  }
+
+  it('isPolite picks exactly one side of a pair', () => {
+    expect(isPolite('a', 'b')).not.toBe(isPolite('b', 'a'));
+  });
+
+  it('sends an offer when negotiation is needed', async () => {
+    createSession(false);
+    await pc.onnegotiationneeded!();
+
+    expect(sent).toEqual([{ sdp: { type: 'offer', sdp: 'local-offer' } }]);
+    expect(pc.signalingState).toBe('have-local-offer');
+  });
+
+  it('answers an incoming offer', async () => {
+    const session = createSession(false);
+    await session.handleSignal({ sdp: { type: 'offer', sdp: 'remote-offer' } });
+
+    expect(pc.remoteDescription).toEqual({ type: 'offer', sdp: 'remote-offer' });
+    expect(sent).toEqual([{ sdp: { type: 'answer', sdp: 'local-answer' } }]);
+    expect(pc.signalingState).toBe('stable');
+  });
+
+  it('queues candidates until the remote description is set', async () => {
+    const session = createSession(false);
+    const candidate = { candidate: 'candidate:1', sdpMid: '0' };
+
+    await session.handleSignal({ candidate });
+    expect(pc.addIceCandidate).not.toHaveBeenCalled();
+
+    await session.handleSignal({ sdp: { type: 'offer', sdp: 'remote-offer' } });
+    expect(pc.addIceCandidate).toHaveBeenCalledWith(candidate);
+  });
+
+  it('polite side rolls back its own offer on collision and answers', async () => {
+    const session = createSession(true);
+    await pc.onnegotiationneeded!();
+    const rollback = vi.spyOn(pc, 'setLocalDescription');
+
+    await session.handleSignal({ sdp: { type: 'offer', sdp: 'remote-offer' } });
+
+    expect(rollback).toHaveBeenCalledWith({ type: 'rollback' });
+    expect(sent.at(-1)).toEqual({ sdp: { type: 'answer', sdp: 'local-answer' } });
+    expect(pc.signalingState).toBe('stable');
+  });
+
+  it('impolite side ignores a colliding offer and its candidates', async () => {
+    const session = createSession(false);
+    await pc.onnegotiationneeded!();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    pc.addIceCandidate.mockRejectedValueOnce(new Error('no matching transceiver'));
+
+    await session.handleSignal({ sdp: { type: 'offer', sdp: 'remote-offer' } });
+    await session.handleSignal({ candidate: { candidate: 'candidate:1' } });
+
+    expect(pc.remoteDescription).toBeNull();
+    expect(sent).toHaveLength(1);
+    expect(pc.signalingState).toBe('have-local-offer');
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('completes its own offer when the answer arrives', async () => {
+    const session = createSession(false);
+    await pc.onnegotiationneeded!();
+    await session.handleSignal({ sdp: { type: 'answer', sdp: 'remote-answer' } });
+
+    expect(pc.signalingState).toBe('stable');
+    expect(pc.remoteDescription).toEqual({ type: 'answer', sdp: 'remote-answer' });
+  });
+
+  it('replaceTrack swaps the sender track and adds one when missing', async () => {
+    const audio = { kind: 'audio' };
+    const stream = { getTracks: () => [audio] };
+    const session = createSession(false, stream);
+    const mic = { kind: 'audio' };
+    const camera = { kind: 'video' };
+
+    await session.replaceTrack(audio as any, mic as any, stream as any);
+    await session.replaceTrack(undefined, camera as any, stream as any);
+
+    expect(pc.senders).toHaveLength(2);
+    expect(pc.senders[0].replaceTrack).toHaveBeenCalledWith(mic);
+    expect(pc.senders[1].track).toBe(camera);
+  });
+
+  it('replaceTrack leaves a screen share alone when switching cameras', async () => {
+    const camera = { kind: 'video' };
+    const screen = { kind: 'video' };
+    const stream = { getTracks: () => [camera] };
+    const session = createSession(false, stream);
+    session.addTrack(screen as any, {} as any);
+    const nextCamera = { kind: 'video' };
+
+    await session.replaceTrack(camera as any, nextCamera as any, stream as any);
+
+    expect(pc.senders.map(s => s.track)).toEqual([nextCamera, screen]);
+  });
+
+  it('close detaches handlers and closes the connection', () => {
+    const session = createSession(false);
+    session.close();
+
+    expect(pc.onnegotiationneeded).toBeNull();
+    expect(pc.close).toHaveBeenCalled();
+  });
+
+  describe('ICE restart', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('gives a disconnected connection a grace period before restarting', () => {
+      const session = createSession(false);
+      pc.setIceState('connected');
+      pc.setIceState('disconnected');
+
+      expect(session.connectionState).toBe('reconnecting');
+      vi.advanceTimersByTime(99);
+      expect(pc.restartIce).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(pc.restartIce).toHaveBeenCalledTimes(1);
+
+      pc.setIceState('connected');
+      expect(states).toEqual(['connected', 'reconnecting', 'connected']);
+      vi.advanceTimersByTime(10000);
+      expect(pc.restartIce).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not restart when the connection recovers within the grace period', () => {
+      createSession(false);
+      pc.setIceState('connected');
+      pc.setIceState('disconnected');
+      pc.setIceState('connected');
+
+      vi.advanceTimersByTime(10000);
+      expect(pc.restartIce).not.toHaveBeenCalled();
+    });
+
+    it('restarts a failed connection at once and backs off until giving up', () => {
+      const session = createSession(false);
+      pc.setIceState('failed');
+
+      vi.advanceTimersByTime(0);
+      expect(pc.restartIce).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(999);
+      expect(pc.restartIce).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(1);
+      expect(pc.restartIce).toHaveBeenCalledTimes(2);
+      vi.advanceTimersByTime(2000);
+      expect(pc.restartIce).toHaveBeenCalledTimes(3);
+      vi.advanceTimersByTime(4000);
+
+      expect(pc.restartIce).toHaveBeenCalledTimes(3);
+      expect(session.connectionState).toBe('failed');
+      expect(states).toEqual(['reconnecting', 'failed']);
+    });
+
+    it('close cancels a pending restart', () => {
+      const session = createSession(false);
+      pc.setIceState('failed');
+      session.close();
+
+      vi.advanceTimersByTime(10000);
+      expect(pc.restartIce).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Active speaker detection
+ * Measures every remote stream, publishes per-peer levels and speaking state to the room
+ * store, and picks one dominant speaker for the spotlight. The spotlight only moves once
+ * someone else has been the loudest for a moment, so a cough or a short "yes" does not
+ * yank the layout around.
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { AudioAnalyzer, type AudioLevelUpdate } from './audio-throttle';
+import { useRoomStore } from './stores/room-store';
+
+// How long someone must stay the loudest speaker before the spotlight moves to them
+const SPEAKER_SWITCH_DELAY_MS = 1500;
+
+export class DominantSpeakerDetector {
+  private current: string | null = null;
+  private candidate: { peerId: string; since: number } | null = null;
+
+  constructor(private switchDelayMs = SPEAKER_SWITCH_DELAY_MS) {}
+
+  /** Feed the latest levels; returns who holds the spotlight now (null until anyone spoke) */
+  update(levels: AudioLevelUpdate[], now = performance.now()): string | null {
+    const loudest = levels
+      .filter(l => l.speaking)
+      .reduce<AudioLevelUpdate | null>((best, l) => (!best || l.audioLevel > best.audioLevel ? l : best), null);
+
+    // Silence, or the current speaker is still the loudest: nothing to switch to
+    if (!loudest || loudest.peerId === this.current) {
+      this.candidate = null;
+      return this.current;
+    }
+    if (!this.current) {
+      this.current = loudest.peerId;
+      return this.current;
+    }
+    if (this.candidate?.peerId !== loudest.peerId) {
+      this.candidate = { peerId: loudest.peerId, since: now };
+    }
+    if (now - this.candidate.since >= this.switchDelayMs) {
+      this.current = loudest.peerId;
+      this.candidate = null;
+    }
+    return this.current;
+  }
+
+  /** Someone left; if they held the spotlight, the next speaker takes it straight away */
+  remove(peerId: string): void {
+    if (this.current === peerId) this.current = null;
+    if (this.candidate?.peerId === peerId) this.candidate = null;
+  }
+}
+
+/** Analyse remote audio while in the room; `streams` is keyed by participant id */
+export function useActiveSpeaker(streams: ReadonlyMap<string, MediaStream>, enabled: boolean) {
+  const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  const detectorRef = useRef<DominantSpeakerDetector | null>(null);
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || typeof AudioContext === 'undefined') return;
+    const detector = new DominantSpeakerDetector();
+    const analyzer = new AudioAnalyzer(updates => {
+      const { actions, peers } = useRoomStore.getState();
+      for (const { peerId, audioLevel, speaking } of updates) {
+        actions.setPeerAudioLevel(peerId, audioLevel);
+        actions.setPeerSpeaking(peerId, speaking);
+      }
+      const speaker = detector.update(updates);
+      if (speaker !== peers.activeSpeakerId) actions.setActiveSpeaker(speaker);
+    });
+    analyzerRef.current = analyzer;
+    detectorRef.current = detector;
+    return () => {
+      analyzer.destroy();
+      analyzerRef.current = null;
+      detectorRef.current = null;
+      useRoomStore.getState().actions.setActiveSpeaker(null);
+    };
+  }, [enabled]);
+
+  // Wire up new streams (or streams whose audio track changed) and drop departed peers
+  const analysedRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const analyzer = analyzerRef.current;
+    if (!analyzer) {
+      analysedRef.current.clear();
+      return;
+    }
+    streams.forEach((stream, peerId) => {
+      analyzer.initializeForStream(peerId, stream);
+      analysedRef.current.add(peerId);
+    });
+    analysedRef.current.forEach(peerId => {
+      if (streams.has(peerId)) return;
+      analyzer.removeStream(peerId);
+      detectorRef.current?.remove(peerId);
+      analysedRef.current.delete(peerId);
+    });
+  }, [streams, enabled]);
+}
@@ -5,6 +5,13 @@
 
 import React from 'react';
 
+export interface AudioLevelUpdate {
+  peerId: string;
+  /** 0..1 */
+  audioLevel: number;
+  speaking: boolean;
+}
+
 interface AudioLevelData {
   peak: number;
   lastUpdated: number;
@@ -23,10 +30,10 @@ class AudioLevelThrottler {
   private lastFlush = 0;
   private config: ThrottleConfig;
   private flushInterval: number;
-  private onUpdate: (updates: Array<{ peerId: string; audioLevel: number; speaking: boolean }>) => void;
+  private onUpdate: (updates: AudioLevelUpdate[]) => void;
 
   constructor(
-    onUpdate: (updates: Array<{ peerId: string; audioLevel: number; speaking: boolean }>) => void,
+    onUpdate: (updates: AudioLevelUpdate[]) => void,
     config: Partial<ThrottleConfig> = {}
   ) {
     this.onUpdate = onUpdate;
@@ -72,7 +79,7 @@ class AudioLevelThrottler {
     if (now - this.lastFlush < this.config.updateInterval) return;
     
     this.lastFlush = now;
-    const updates: Array<{ peerId: string; audioLevel: number; speaking: boolean }> = [];
+    const updates: AudioLevelUpdate[] = [];
 
     this.levelMap.forEach((data, peerId) => {
       // Only include in updates if level changed significantly or speaking state changed
@@ -124,15 +131,25 @@ class AudioLevelThrottler {
 export class AudioAnalyzer {
   private audioContext?: AudioContext;
   private analyserNodes = new Map<string, AnalyserNode>();
+  // The audio track each peer is analysed from, so a stream whose track changed is re-wired
+  private sources = new Map<string, { track: MediaStreamTrack; source: MediaStreamAudioSourceNode }>();
   private animationFrame?: number;
   private throttler: AudioLevelThrottler;
   private isRunning = false;
 
-  constructor(onUpdate: (updates: Array<{ peerId: string; audioLevel: number; speaking: boolean }>) => void) {
+  constructor(onUpdate: (updates: AudioLevelUpdate[]) => void) {
     this.throttler = new AudioLevelThrottler(onUpdate);
   }
 
   async initializeForStream(peerId: string, stream: MediaStream): Promise<void> {
+    const track = stream.getAudioTracks()[0];
+    if (!track) {
+      if (this.sources.has(peerId)) this.removeStream(peerId);
+      return;
+    }
+    if (this.sources.get(peerId)?.track === track) return;
+    this.disconnect(peerId);
+
     try {
       if (!this.audioContext) {
         this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -142,8 +159,10 @@ export class AudioAnalyzer {
       if (this.audioContext.state === 'suspended') {
         await this.audioContext.resume();
       }
+      // Another call may have wired this track while we waited
+      if (this.sources.get(peerId)?.track === track) return;
 
-      const source = this.audioContext.createMediaStreamSource(stream);
+      const source = this.audioContext.createMediaStreamSource(new MediaStream([track]));
       const analyser = this.audioContext.createAnalyser();
       
       analyser.fftSize = 256;
@@ -151,6 +170,7 @@ export class AudioAnalyzer {
       source.connect(analyser);
       
       this.analyserNodes.set(peerId, analyser);
+      this.sources.set(peerId, { track, source });
 
       // Start analysis loop if not already running
       if (!this.isRunning) {
@@ -189,8 +209,14 @@ export class AudioAnalyzer {
     analyze();
   }
 
-  removeStream(peerId: string): void {
+  private disconnect(peerId: string): void {
+    this.sources.get(peerId)?.source.disconnect();
+    this.sources.delete(peerId);
     this.analyserNodes.delete(peerId);
+  }
+
+  removeStream(peerId: string): void {
+    this.disconnect(peerId);
     this.throttler.removePeer(peerId);
     
     // Stop analysis if no more streams
@@ -210,6 +236,8 @@ export class AudioAnalyzer {
   destroy(): void {
     this.stopAnalysis();
     this.throttler.destroy();
+    this.sources.forEach(({ source }) => source.disconnect());
+    this.sources.clear();
     this.analyserNodes.clear();
     
     if (this.audioContext && this.audioContext.state !== 'closed') {
@@ -232,7 +260,7 @@ export function useAudioAnalyzer() {
   const [analyzer, setAnalyzer] = React.useState<AudioAnalyzer | null>(null);
   
   const initializeAnalyzer = React.useCallback((
-    onUpdate: (updates: Array<{ peerId: string; audioLevel: number; speaking: boolean }>) => void
+    onUpdate: (updates: AudioLevelUpdate[]) => void
   ) => {
     const newAnalyzer = new AudioAnalyzer(onUpdate);
     setAnalyzer(newAnalyzer);
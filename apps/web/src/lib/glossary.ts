@@ -0,0 +1,188 @@
+/**
+ * Translation glossaries
+ * Org-wide terms come from ORG_GLOSSARY_FILE, per-room terms from the signaling
+ * service. Providers with native glossary support get the plan directly; for the
+ * rest, terms are swapped for placeholders before translation and restored after.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { isSameLang } from './i18n';
+import { getRoomGlossary, type Glossary, type GlossaryTerm } from './signaling-api';
+
+export type { Glossary, GlossaryTerm };
+
+/** The part of a glossary that applies to one source/target language pair */
+export interface GlossaryPlan {
+  terms: { source: string; target: string }[];
+  doNotTranslate: string[];
+  /** Whose glossary this is; providers that store glossaries server-side keep one per owner */
+  owner?: string;
+}
+
+/** A glossary tagged with who it belongs to: `org` or `room:<id>` */
+export interface ScopedGlossary extends Glossary {
+  owner?: string;
+}
+
+const ROOM_GLOSSARY_TTL_MS = 30000;
+const MAX_CACHED_ROOM_GLOSSARIES = 1000;
+
+export const EMPTY_GLOSSARY: Glossary = { terms: [], doNotTranslate: [] };
+
+/**
+ * Select the entries that apply when translating into `targetLang`.
+ * Without a known source language every term for the target language applies.
+ */
+export function planGlossary(glossary: ScopedGlossary | undefined, targetLang: string, sourceLang?: string): GlossaryPlan | undefined {
+  if (!glossary) return undefined;
+  const terms = glossary.terms
+    .filter(t => isSameLang(t.targetLang, targetLang) && (!sourceLang || isSameLang(t.sourceLang, sourceLang)))
+    .map(({ source, target }) => ({ source, target }));
+  const doNotTranslate = glossary.doNotTranslate;
+  if (terms.length === 0 && doNotTranslate.length === 0) return undefined;
+  return { terms, doNotTranslate, owner: glossary.owner };
+}
+
+/**
+ * Short, stable id for a plan; part of the translation cache key so edits invalidate stale entries
+ */
+export function glossaryFingerprint(plan: GlossaryPlan): string {
+  const { terms, doNotTranslate } = plan;
+  return createHash('sha1').update(JSON.stringify({ terms, doNotTranslate })).digest('hex').slice(0, 12);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Scripts written without spaces cannot rely on word boundaries
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/**
+ * Replace whole-word, case-insensitive occurrences of `terms` (longest first).
+ * `replacer` receives the matched text and the index of the term in `terms`.
+ */
+export function replaceTerms(text: string, terms: string[], replacer: (match: string, termIndex: number) => string): string {
+  if (terms.length === 0) return text;
+  const order = terms.map((_, i) => i).sort((a, b) => terms[b].length - terms[a].length);
+  const pattern = order.map(i => {
+    const escaped = escapeRegExp(terms[i]);
+    return UNSPACED_SCRIPT.test(terms[i]) ? `(${escaped})` : `(?<![\\p{L}\\p{N}])(${escaped})(?![\\p{L}\\p{N}])`;
+  }).join('|');
+
+  return text.replace(new RegExp(pattern, 'giu'), (match, ...groups) => {
+    const group = groups.findIndex(g => g !== undefined);
+    return replacer(match, order[group]);
+  });
+}
+
+/**
+ * Placeholder fallback for providers without glossary support: protected terms
+ * become ⟦n⟧ tokens, which engines leave alone, and are filled back in afterwards.
+ */
+export function protectTerms(text: string, plan: GlossaryPlan): { text: string; restore: (translated: string) => string } {
+  const candidates = [...plan.doNotTranslate, ...plan.terms.map(t => t.source)];
+  const replacements: string[] = [];
+
+  const protectedText = replaceTerms(text, candidates, (match, index) => {
+    const dnt = index < plan.doNotTranslate.length;
+    replacements.push(dnt ? match : plan.terms[index - plan.doNotTranslate.length].target);
+    return `⟦${replacements.length - 1}⟧`;
+  });
+
+  return {
+    text: protectedText,
+    restore: translated => translated.replace(/⟦\s*(\d+)\s*⟧/g, (token, n) => replacements[Number(n)] ?? token)
+  };
+}
+
+// Fields of an object-shaped value, each still to be checked; anything else has none
+function fieldsOf<K extends string>(value: unknown): Partial<Record<K, unknown>> {
+  return typeof value === 'object' && value !== null ? value as Partial<Record<K, unknown>> : {};
+}
+
+function trimmed(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Normalise a glossary-shaped value, dropping malformed entries
+ */
+export function parseGlossary(input: unknown): Glossary {
+  const fields = fieldsOf<keyof Glossary>(input);
+  const terms: GlossaryTerm[] = [];
+  const candidates: unknown[] = Array.isArray(fields.terms) ? fields.terms : [];
+  for (const candidate of candidates) {
+    const term = fieldsOf<keyof GlossaryTerm>(candidate);
+    const [sourceLang, targetLang, source, target] = [term.sourceLang, term.targetLang, term.source, term.target].map(trimmed);
+    if (sourceLang && targetLang && source && target) {
+      terms.push({ sourceLang: sourceLang.toUpperCase(), targetLang: targetLang.toUpperCase(), source, target });
+    }
+  }
+  const dnt: unknown[] = Array.isArray(fields.doNotTranslate) ? fields.doNotTranslate : [];
+  const doNotTranslate = dnt.map(trimmed).filter((t): t is string => Boolean(t));
+  return { terms, doNotTranslate };
+}
+
+/**
+ * Room entries override org entries for the same language pair and source term
+ */
+export function mergeGlossaries(org: Glossary, room: Glossary): Glossary {
+  const termKey = (t: GlossaryTerm) => `${t.sourceLang}>${t.targetLang}:${t.source.toLowerCase()}`;
+  const terms = new Map(org.terms.map(t => [termKey(t), t]));
+  room.terms.forEach(t => terms.set(termKey(t), t));
+  return {
+    terms: Array.from(terms.values()),
+    doNotTranslate: [...new Set([...org.doNotTranslate, ...room.doNotTranslate])]
+  };
+}
+
+let orgGlossary: Glossary | null = null;
+
+export function getOrgGlossary(): Glossary {
+  if (!orgGlossary) {
+    const file = process.env.ORG_GLOSSARY_FILE;
+    orgGlossary = EMPTY_GLOSSARY;
+    if (file) {
+      try {
+        orgGlossary = parseGlossary(JSON.parse(readFileSync(file, 'utf8')));
+      } catch (error) {
+        console.warn(`[Glossary] Could not read ORG_GLOSSARY_FILE ${file}:`, error);
+      }
+    }
+  }
+  return orgGlossary;
+}
+
+// Room glossaries change rarely; a short cache spares a signaling round trip per translation
+const roomGlossaries = new Map<string, { glossary: Glossary; fetchedAt: number }>();
+
+export function cacheRoomGlossary(roomId: string, glossary: Glossary): void {
+  roomGlossaries.delete(roomId);
+  roomGlossaries.set(roomId, { glossary, fetchedAt: Date.now() });
+  if (roomGlossaries.size > MAX_CACHED_ROOM_GLOSSARIES) {
+    roomGlossaries.delete(roomGlossaries.keys().next().value!);
+  }
+}
+
+/**
+ * The glossary in effect for a translation: org-wide entries plus the room's own
+ */
+export async function resolveGlossary(roomId?: string): Promise<ScopedGlossary> {
+  const org = getOrgGlossary();
+  if (!roomId) return { ...org, owner: 'org' };
+
+  let cached = roomGlossaries.get(roomId);
+  if (!cached || Date.now() - cached.fetchedAt > ROOM_GLOSSARY_TTL_MS) {
+    try {
+      cacheRoomGlossary(roomId, parseGlossary(await getRoomGlossary(roomId)));
+    } catch (error) {
+      // Translating without the room glossary beats failing the message
+      console.warn(`[Glossary] Could not load glossary for room ${roomId}:`, error);
+      cacheRoomGlossary(roomId, cached?.glossary ?? EMPTY_GLOSSARY);
+    }
+    cached = roomGlossaries.get(roomId)!;
+  }
+  return { ...mergeGlossaries(org, cached.glossary), owner: `room:${roomId}` };
+}
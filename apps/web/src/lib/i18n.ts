@@ -14,6 +14,8 @@ export function getLangLabel(code: string) {
   return LANGS.find(l => l.code === code)?.label || code;
 }
 
-
-
-
+// Compare language codes across conventions: 'EN-US', 'en' and 'en-GB' are all English
+export function isSameLang(a?: string, b?: string) {
+  if (!a || !b) return false;
+  return a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase();
+}
@@ -0,0 +1,64 @@
+/**
+ * ICE servers for peer connections
+ * TURN credentials are minted per client by /api/ice-servers and expire, so the
+ * client fetches them before it connects and refreshes them ahead of expiry.
+ */
+
+export interface IceServersResponse {
+  iceServers: RTCIceServer[];
+  /** When the TURN credentials stop working (ms since epoch); null when there are none */
+  expiresAt: number | null;
+}
+
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+// Refresh this long before expiry, or after a quarter of the lifetime for short-lived credentials
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// STUN-only configurations never expire but TURN may be turned on later
+const STATIC_REFRESH_MS = 60 * 60 * 1000;
+const RETRY_MS = 30 * 1000;
+
+export class IceServerCache {
+  private servers: RTCIceServer[] = FALLBACK_ICE_SERVERS;
+  private refreshAt = 0;
+  private pending: Promise<RTCIceServer[]> | null = null;
+
+  constructor(
+    private url: string,
+    private fetchImpl: typeof fetch = (...args) => fetch(...args),
+    private now: () => number = Date.now
+  ) {}
+
+  /** The last servers fetched (or the STUN fallback); never blocks */
+  current(): RTCIceServer[] {
+    return this.servers;
+  }
+
+  /**
+   * Servers with credentials that are still good for a while, fetching new ones if needed.
+   * Returns the same array until it changes, so callers can tell a refresh happened.
+   */
+  async get(): Promise<RTCIceServer[]> {
+    if (this.now() < this.refreshAt) return this.servers;
+    this.pending ??= this.refresh().finally(() => { this.pending = null; });
+    return this.pending;
+  }
+
+  private async refresh(): Promise<RTCIceServer[]> {
+    try {
+      const res = await this.fetchImpl(this.url, { cache: 'no-store' });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const { iceServers, expiresAt }: IceServersResponse = await res.json();
+      const fetchedAt = this.now();
+      this.servers = iceServers?.length ? iceServers : FALLBACK_ICE_SERVERS;
+      this.refreshAt = expiresAt
+        ? expiresAt - Math.min(REFRESH_MARGIN_MS, (expiresAt - fetchedAt) / 4)
+        : fetchedAt + STATIC_REFRESH_MS;
+    } catch (err) {
+      // Keep whatever we had; STUN alone still connects most peers
+      console.warn('[ICE] Could not fetch ICE servers:', err);
+      this.refreshAt = this.now() + RETRY_MS;
+    }
+    return this.servers;
+  }
+}
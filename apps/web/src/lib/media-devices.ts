@@ -0,0 +1,53 @@
+/**
+ * Device selection
+ * Opens the user's preferred devices, re-acquires a single track when they switch
+ * mid-call, and routes remote audio to the chosen output.
+ */
+
+export type MediaKind = 'audio' | 'video';
+
+type SinkableElement = HTMLMediaElement & { sinkId?: string; setSinkId?: (sinkId: string) => Promise<void> };
+
+/**
+ * Constraint for one kind of device. `ideal` lets the browser fall back to another
+ * device when the preferred one is gone; `exact` fails instead.
+ */
+export function deviceConstraint(deviceId?: string, exact = false): boolean | MediaTrackConstraints {
+  if (!deviceId) return true;
+  return { deviceId: exact ? { exact: deviceId } : { ideal: deviceId } };
+}
+
+/** A fresh track from the chosen device, to swap in for the current one */
+export async function acquireTrack(
+  kind: MediaKind,
+  deviceId: string,
+  mediaDevices: MediaDevices = navigator.mediaDevices
+): Promise<MediaStreamTrack> {
+  const stream = await mediaDevices.getUserMedia({ [kind]: deviceConstraint(deviceId, true) });
+  const track = kind === 'audio' ? stream.getAudioTracks()[0] : stream.getVideoTracks()[0];
+  if (!track) throw new Error(`No ${kind} track from device ${deviceId}`);
+  return track;
+}
+
+/**
+ * The device to use after the list changed: the preferred one when it is plugged in,
+ * otherwise the one in use if it is still there. Undefined when neither is available.
+ */
+export function resolveDeviceId(devices: MediaDeviceInfo[], preferredId?: string, currentId?: string): string | undefined {
+  const present = (id?: string) => Boolean(id) && devices.some(d => d.deviceId === id);
+  if (present(preferredId)) return preferredId;
+  if (present(currentId)) return currentId;
+  return undefined;
+}
+
+/** Output selection is Chromium-only for now; elsewhere audio follows the system default */
+export function isAudioOutputSelectable(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+/** Play an element's audio through `deviceId` ('' for the system default) */
+export async function setAudioOutput(element: HTMLMediaElement, deviceId = ''): Promise<void> {
+  const sinkable = element as SinkableElement;
+  if (typeof sinkable.setSinkId !== 'function' || (sinkable.sinkId ?? '') === deviceId) return;
+  await sinkable.setSinkId(deviceId);
+}
@@ -3,6 +3,8 @@
  * Replaces random cleanup with predictable eviction strategy
  */
 
+import { timingSafeEqual } from 'crypto';
+
 interface RateLimitEntry {
   count: number;
   resetTime: number;
@@ -83,7 +85,19 @@ class OptimizedRateLimiter {
 
 // Rate limiters for different endpoints
 export const translateLimiter = new OptimizedRateLimiter(60 * 1000, 30, 5000); // 30 requests per minute, max 5k entries
+export const translateBatchLimiter = new OptimizedRateLimiter(60 * 1000, 10, 5000); // 10 batches per minute, max 5k entries
 export const roomLimiter = new OptimizedRateLimiter(60 * 1000, 10, 1000); // 10 room creations per minute, max 1k entries
+export const iceServersLimiter = new OptimizedRateLimiter(60 * 1000, 20, 5000); // 20 credential fetches per minute, max 5k entries
+
+// Service-to-service calls (signaling chat fan-out) carry a shared token and skip per-IP limits
+export function isInternalRequest(req: Request): boolean {
+  const token = process.env.INTERNAL_API_TOKEN;
+  const given = req.headers.get('x-internal-token');
+  if (!token || !given) return false;
+  const a = Buffer.from(token);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
 
 export function getRateLimitKey(req: Request, prefix: string): string {
   // Try to get real IP from headers (for proxy setups)
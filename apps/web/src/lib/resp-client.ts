@@ -0,0 +1,190 @@
+/**
+ * Minimal Redis protocol (RESP2) client
+ * Enough for the translation cache (GET/SET/MGET/LPUSH/LTRIM/LRANGE/DEL) against
+ * Redis or any compatible server, without pulling in a driver dependency.
+ */
+
+import net from 'net';
+
+export type RespValue = string | number | null | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+const COMMAND_TIMEOUT_MS = 2000;
+const CONNECT_TIMEOUT_MS = 2000;
+
+export interface RespClientOptions {
+  /** How long connecting, AUTH and SELECT may take before the attempt is abandoned */
+  connectTimeoutMs?: number;
+}
+
+export function encodeCommand(args: (string | number)[]): string {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return out;
+}
+
+/**
+ * Parse one reply from the start of `buffer`.
+ * Returns null when the buffer does not yet hold a complete reply.
+ */
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue | RespError; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next: afterLine };
+    case '-':
+      return { value: new RespError(line), next: afterLine };
+    case ':':
+      return { value: Number(line), next: afterLine };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return null;
+      return { value: buffer.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, next: afterLine };
+      const items: RespValue[] = [];
+      let error: RespError | null = null;
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, next);
+        if (!item) return null;
+        // Consume the whole array even when an element is an error
+        if (item.value instanceof RespError) error ??= item.value;
+        else items.push(item.value);
+        next = item.next;
+      }
+      return { value: error ?? items, next };
+    }
+    default:
+      throw new RespError(`Unexpected reply type "${type}"`);
+  }
+}
+
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+  private url: URL;
+  private connectTimeoutMs: number;
+
+  constructor(url: string, { connectTimeoutMs = CONNECT_TIMEOUT_MS }: RespClientOptions = {}) {
+    this.url = new URL(url);
+    this.connectTimeoutMs = connectTimeoutMs;
+  }
+
+  async command(...args: (string | number)[]): Promise<RespValue> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  close(): void {
+    const socket = this.socket;
+    this.reset(new RespError('Connection closed'));
+    socket?.end();
+  }
+
+  private send(args: (string | number)[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      this.socket!.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    this.ready = new Promise((resolve, reject) => {
+      const socket = net.connect({
+        host: this.url.hostname || 'localhost',
+        port: Number(this.url.port) || 6379
+      });
+      socket.setTimeout(COMMAND_TIMEOUT_MS);
+      this.socket = socket;
+      // An unanswered SYN or handshake has nothing pending, so the idle timeout never fires
+      const connectTimer = setTimeout(() => socket.destroy(new RespError('Connect timed out')), this.connectTimeoutMs);
+      const settle = () => clearTimeout(connectTimer);
+
+      socket.on('connect', async () => {
+        try {
+          const password = decodeURIComponent(this.url.password);
+          if (password) {
+            const username = decodeURIComponent(this.url.username);
+            await this.send(username ? ['AUTH', username, password] : ['AUTH', password]);
+          }
+          const db = this.url.pathname.replace(/^\//, '');
+          if (db) await this.send(['SELECT', db]);
+          settle();
+          resolve();
+        } catch (error) {
+          settle();
+          reject(error);
+          this.close();
+        }
+      });
+      socket.on('data', chunk => {
+        if (this.socket === socket) this.onData(chunk);
+      });
+      // A stalled socket only matters while replies are outstanding
+      socket.on('timeout', () => {
+        if (this.pending.length > 0) socket.destroy(new RespError('Command timed out'));
+      });
+      // Ignore events from a socket that has already been replaced
+      socket.on('error', error => {
+        settle();
+        reject(error);
+        if (this.socket === socket) this.reset(error);
+      });
+      socket.on('close', () => {
+        settle();
+        if (this.socket === socket) this.reset(new RespError('Connection closed'));
+      });
+    });
+
+    return this.ready;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let reply = parseReply(this.buffer);
+    while (reply) {
+      const command = this.pending.shift();
+      if (reply.value instanceof RespError) command?.reject(reply.value);
+      else command?.resolve(reply.value);
+      this.buffer = this.buffer.subarray(reply.next);
+      reply = this.buffer.length ? parseReply(this.buffer) : null;
+    }
+  }
+
+  // Fail everything outstanding; the next command reconnects
+  private reset(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    this.socket = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+    pending.forEach(command => command.reject(error));
+  }
+}
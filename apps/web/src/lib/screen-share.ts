@@ -0,0 +1,38 @@
+/**
+ * Screen capture
+ * Asks for the screen with its audio (a tab's sound, or the whole system's where
+ * the browser offers that) and tunes the tracks for a presentation rather than a face.
+ */
+
+// Slides and code rarely change; fewer frames leave bandwidth for sharper text
+const SCREEN_FRAME_RATE = 15;
+
+export function isScreenShareSupported(mediaDevices: MediaDevices | undefined = globalThis.navigator?.mediaDevices): boolean {
+  return typeof mediaDevices?.getDisplayMedia === 'function';
+}
+
+/**
+ * Capture a screen, window or tab. Browsers that cannot capture audio with it get
+ * video only; the user cancelling the picker rejects with NotAllowedError.
+ */
+export async function captureScreen(mediaDevices: MediaDevices = navigator.mediaDevices): Promise<MediaStream> {
+  const video = { frameRate: { ideal: SCREEN_FRAME_RATE } };
+  let stream: MediaStream;
+  try {
+    // systemAudio and friends are Chromium hints that other browsers ignore
+    stream = await mediaDevices.getDisplayMedia({
+      video,
+      audio: true,
+      systemAudio: 'include',
+      surfaceSwitching: 'include',
+      selfBrowserSurface: 'exclude'
+    } as DisplayMediaStreamOptions);
+  } catch (err) {
+    // Some browsers reject audio outright instead of returning video only
+    if ((err as Error)?.name !== 'TypeError' && (err as Error)?.name !== 'NotSupportedError') throw err;
+    stream = await mediaDevices.getDisplayMedia({ video });
+  }
+
+  stream.getVideoTracks().forEach(track => { track.contentHint = 'detail'; });
+  return stream;
+}
@@ -0,0 +1,186 @@
+/**
+ * Client side of the signaling service's SFU mode
+ * Publishes the local tracks to the room's media router and subscribes to every
+ * other participant's, reporting remote tracks per participant id so the room can
+ * keep rendering peers exactly as it does for mesh connections.
+ */
+
+import { Device, type types } from 'mediasoup-client';
+import type { Socket } from 'socket.io-client';
+import type {
+  ClientPayload, ClientToServerEvents, RemoteProducer, ServerPayload, ServerToClientEvents, SfuReplies, SfuReply, SfuRequestName, TrackSource
+} from '@supichat/protocol';
+
+// Defined by the shared protocol; a track's source tells camera and microphone from a screen share
+export type { RemoteProducer, TrackSource };
+
+export interface SfuSessionHandlers {
+  /** A remote participant's track became available */
+  onTrack: (peerId: string, track: MediaStreamTrack, source: TrackSource) => void;
+  /** A remote track stopped because its producer went away */
+  onTrackEnded?: (peerId: string, track: MediaStreamTrack) => void;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// socket.io cannot work out the ack type for a generic event name; this is the same call spelled out
+type SfuEmitter = {
+  emitWithAck<E extends SfuRequestName>(event: E, payload: ClientPayload<E>): Promise<SfuReply<E>>;
+};
+
+export class SfuSession {
+  private device: Device | null = null;
+  private sendTransport: types.Transport | null = null;
+  private recvTransport: types.Transport | null = null;
+  // Keyed by local track id
+  private producers = new Map<string, types.Producer>();
+  // Keyed by producer id; requested covers consumers still being negotiated
+  private consumers = new Map<string, { consumer: types.Consumer; peerId: string }>();
+  private requested = new Set<string>();
+  private closed = false;
+
+  constructor(
+    private socket: Socket<ServerToClientEvents, ClientToServerEvents>,
+    private roomId: string,
+    private handlers: SfuSessionHandlers,
+    private iceServers: RTCIceServer[] = [],
+    private createDevice: () => Device = () => new Device()
+  ) {
+    socket.on('sfu:new-producer', this.onNewProducer);
+    socket.on('sfu:consumer-closed', this.onConsumerClosed);
+  }
+
+  private async request<E extends SfuRequestName>(event: E, payload: Omit<ClientPayload<E>, 'roomId'>): Promise<SfuReplies[E]> {
+    const emitter = this.socket.timeout(REQUEST_TIMEOUT_MS) as unknown as SfuEmitter;
+    const reply = await emitter.emitWithAck(event, { roomId: this.roomId, ...payload } as ClientPayload<E>);
+    if ('error' in reply) throw new Error(reply.error);
+    return reply;
+  }
+
+  private wireConnect(transport: types.Transport): void {
+    transport.on('connect', ({ dtlsParameters }, callback, errback) => {
+      this.request('sfu:connect-transport', { transportId: transport.id, dtlsParameters }).then(() => callback(), errback);
+    });
+  }
+
+  /**
+   * Load the router's codecs, publish the local tracks and subscribe to everyone already publishing
+   */
+  async start(localStream: MediaStream | null): Promise<void> {
+    const { rtpCapabilities } = await this.request('sfu:capabilities', {});
+    const device = this.createDevice();
+    await device.load({ routerRtpCapabilities: rtpCapabilities as types.RtpCapabilities });
+    if (this.closed) return;
+    this.device = device;
+
+    const recv = await this.request('sfu:create-transport', { direction: 'recv' });
+    if (this.closed) return;
+    this.recvTransport = device.createRecvTransport({ ...recv, iceServers: this.iceServers } as types.TransportOptions);
+    this.wireConnect(this.recvTransport);
+
+    for (const track of localStream?.getTracks() ?? []) {
+      await this.publish(track);
+      if (this.closed) return;
+    }
+
+    const { producers } = await this.request('sfu:producers', {});
+    await Promise.all(producers.map(producer => this.consume(producer)));
+  }
+
+  // Created with the first published track; participants without media only receive
+  private async getSendTransport(device: Device): Promise<types.Transport> {
+    if (this.sendTransport) return this.sendTransport;
+    const send = await this.request('sfu:create-transport', { direction: 'send' });
+    const sendTransport = device.createSendTransport({ ...send, iceServers: this.iceServers } as types.TransportOptions);
+    this.sendTransport = sendTransport;
+    this.wireConnect(sendTransport);
+    sendTransport.on('produce', ({ kind, rtpParameters, appData }, callback, errback) => {
+      this.request('sfu:produce', { transportId: sendTransport.id, kind, rtpParameters, appData: appData as { source?: TrackSource } })
+        .then(({ id }) => callback({ id }), errback);
+    });
+    return sendTransport;
+  }
+
+  /**
+   * Send a local track to the room, e.g. a screen share started mid-call
+   */
+  async publish(track: MediaStreamTrack, source: TrackSource = 'camera'): Promise<void> {
+    const device = this.device;
+    if (this.closed || !device || this.producers.has(track.id) || !device.canProduce(track.kind as types.MediaKind)) return;
+    const transport = await this.getSendTransport(device);
+    if (this.closed) return;
+    const producer = await transport.produce({ track, appData: { source } });
+    this.producers.set(track.id, producer);
+  }
+
+  /** Send from another device on the same producer; nobody has to re-subscribe */
+  async replaceTrack(previous: MediaStreamTrack, track: MediaStreamTrack): Promise<void> {
+    const producer = this.producers.get(previous.id);
+    if (!producer) return this.publish(track);
+    await producer.replaceTrack({ track });
+    this.producers.delete(previous.id);
+    this.producers.set(track.id, producer);
+  }
+
+  async unpublish(track: MediaStreamTrack): Promise<void> {
+    const producer = this.producers.get(track.id);
+    if (!producer) return;
+    this.producers.delete(track.id);
+    producer.close();
+    await this.request('sfu:close-producer', { producerId: producer.id });
+  }
+
+  private onNewProducer = (producer: RemoteProducer) => {
+    void this.consume(producer);
+  };
+
+  private onConsumerClosed = ({ producerId }: ServerPayload<'sfu:consumer-closed'>) => {
+    const entry = this.consumers.get(producerId);
+    if (!entry) return;
+    this.consumers.delete(producerId);
+    this.requested.delete(producerId);
+    entry.consumer.close();
+    this.handlers.onTrackEnded?.(entry.peerId, entry.consumer.track);
+  };
+
+  private async consume({ producerId, peerId, source = 'camera' }: RemoteProducer): Promise<void> {
+    // Producers announced before the receive side exists are picked up by start()
+    if (this.closed || !this.device || !this.recvTransport || this.requested.has(producerId)) return;
+    this.requested.add(producerId);
+    try {
+      const params = await this.request('sfu:consume', {
+        transportId: this.recvTransport.id,
+        producerId,
+        rtpCapabilities: this.device.rtpCapabilities
+      });
+      const consumer = await this.recvTransport.consume({
+        id: params.id,
+        producerId,
+        kind: params.kind,
+        rtpParameters: params.rtpParameters as types.RtpParameters
+      });
+      this.consumers.set(producerId, { consumer, peerId });
+      this.handlers.onTrack(peerId, consumer.track, source);
+      // The server creates consumers paused so nothing is sent before the track is attached
+      await this.request('sfu:resume-consumer', { consumerId: consumer.id });
+    } catch (error) {
+      this.requested.delete(producerId);
+      console.warn(`[SFU] Could not receive ${producerId} from ${peerId}:`, error);
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket.off('sfu:new-producer', this.onNewProducer);
+    this.socket.off('sfu:consumer-closed', this.onConsumerClosed);
+    this.consumers.forEach(({ consumer }) => consumer.close());
+    this.consumers.clear();
+    this.requested.clear();
+    this.producers.forEach(producer => producer.close());
+    this.producers.clear();
+    this.sendTransport?.close();
+    this.recvTransport?.close();
+    this.sendTransport = null;
+    this.recvTransport = null;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Server-side client for the signaling service HTTP API
+ * The signaling service owns the room registry; API routes proxy to it
+ */
+
+export interface RoomInfo {
+  id: string;
+  title?: string;
+  createdBy?: string;
+  createdAt: number;
+  expiresAt: number;
+  maxParticipants: number;
+  defaultLang?: string;
+  participantCount?: number;
+  /** Only present in the create response; lets the creator claim the host role */
+  hostKey?: string;
+}
+
+export interface CreateRoomInput {
+  title?: string;
+  createdBy?: string;
+  maxParticipants?: number;
+  defaultLang?: string;
+  ttlMinutes?: number;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  roomId: string;
+  seq: number;
+  ts: number;
+  from?: string;
+  name?: string;
+  msg: string;
+  lang?: string;
+}
+
+export interface MessagePage {
+  messages: StoredChatMessage[];
+  hasMore: boolean;
+}
+
+/** Non-chat happenings kept for transcripts */
+export interface RoomEvent {
+  id: string;
+  roomId: string;
+  seq: number;
+  ts: number;
+  type: 'join' | 'leave' | 'caption';
+  from?: string;
+  name?: string;
+  lang?: string;
+  /** Caption text, in the speaker's language */
+  text?: string;
+  /** When the captioned utterance started */
+  startedAt?: number;
+}
+
+export interface RoomTranscript {
+  room: RoomInfo;
+  messages: StoredChatMessage[];
+  events: RoomEvent[];
+}
+
+export interface GlossaryTerm {
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+}
+
+export interface Glossary {
+  /** Preferred translations per language pair */
+  terms: GlossaryTerm[];
+  /** Product names and jargon kept verbatim in every language */
+  doNotTranslate: string[];
+  updatedAt?: number;
+}
+
+export type RoomErrorCode = 'ROOM_NOT_FOUND' | 'ROOM_EXPIRED' | 'ROOM_FULL' | 'NOT_HOST';
+
+export class SignalingApiError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'SignalingApiError';
+  }
+}
+
+export function getSignalingInternalUrl(): string {
+  return (process.env.SIGNALING_INTERNAL_URL || 'http://localhost:4001').replace(/\/+$/, '');
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  // The signaling service only serves its room API to callers holding the shared token
+  const token = process.env.INTERNAL_API_TOKEN;
+  let response: Response;
+  try {
+    response = await fetch(`${getSignalingInternalUrl()}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(token && { 'X-Internal-Token': token }), ...(init?.headers ?? {}) },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(5000)
+    });
+  } catch (err: any) {
+    throw new SignalingApiError(`Signaling service unavailable: ${err?.message || err}`, 502);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new SignalingApiError(data?.error || `HTTP ${response.status}`, response.status, data?.code);
+  }
+  return data as T;
+}
+
+export function createRoom(input: CreateRoomInput = {}): Promise<RoomInfo> {
+  return request<RoomInfo>('/rooms', { method: 'POST', body: JSON.stringify(input) });
+}
+
+export function getRoom(roomId: string): Promise<RoomInfo> {
+  return request<RoomInfo>(`/rooms/${encodeURIComponent(roomId)}`);
+}
+
+export function listMessages(roomId: string, { before, limit }: { before?: string; limit?: string } = {}): Promise<MessagePage> {
+  const query = new URLSearchParams();
+  if (before) query.set('before', before);
+  if (limit) query.set('limit', limit);
+  const qs = query.toString();
+  return request<MessagePage>(`/rooms/${encodeURIComponent(roomId)}/messages${qs ? `?${qs}` : ''}`);
+}
+
+export function getRoomTranscript(roomId: string): Promise<RoomTranscript> {
+  return request<RoomTranscript>(`/rooms/${encodeURIComponent(roomId)}/transcript`);
+}
+
+export function getRoomGlossary(roomId: string): Promise<Glossary> {
+  return request<Glossary>(`/rooms/${encodeURIComponent(roomId)}/glossary`);
+}
+
+export function putRoomGlossary(roomId: string, glossary: Partial<Glossary>, hostKey: string): Promise<Glossary> {
+  return request<Glossary>(`/rooms/${encodeURIComponent(roomId)}/glossary`, {
+    method: 'PUT',
+    headers: { 'X-Host-Key': hostKey },
+    body: JSON.stringify(glossary)
+  });
+}
+
+export function signalingErrorResponse(err: unknown): Response {
+  if (err instanceof SignalingApiError) {
+    return Response.json({ error: err.message, ...(err.code && { code: err.code }) }, { status: err.status });
+  }
+  console.error('[Signaling API] Error:', err);
+  return Response.json({ error: 'Internal error' }, { status: 500 });
+}
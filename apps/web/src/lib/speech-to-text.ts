@@ -0,0 +1,164 @@
+/**
+ * Speech-to-text for live captions
+ * Providers turn the local participant's speech into caption segments. A segment
+ * is re-sent with the same id as recognition refines it and ends with a final
+ * version; only final segments are translated for other participants.
+ */
+
+export interface SpeechSegment {
+  /** Stable per utterance; interim updates reuse it */
+  id: string;
+  text: string;
+  final: boolean;
+  lang: string;
+  /** When the utterance started, in ms since epoch */
+  startedAt: number;
+}
+
+export interface SpeechRecognitionOptions {
+  /** The microphone stream being captioned; engines that capture audio themselves may ignore it */
+  stream?: MediaStream | null;
+  lang: string;
+  onSegment: (segment: SpeechSegment) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  /** False when the engine is unavailable in this environment */
+  isSupported(): boolean;
+  start(options: SpeechRecognitionOptions): void;
+  stop(): void;
+}
+
+const RESTART_DELAY_MS = 250;
+
+/**
+ * The browser's built-in recogniser (Chrome, Edge, Safari). It listens to the
+ * default microphone rather than a given stream, and stops after a stretch of
+ * silence, so it is restarted until stop() is called.
+ */
+export class WebSpeechProvider implements SpeechToTextProvider {
+  readonly name = 'webspeech';
+  private recognition: any = null;
+  private active = false;
+  private session = 0;
+
+  private get Recognition(): any {
+    if (typeof window === 'undefined') return undefined;
+    return (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  }
+
+  isSupported(): boolean {
+    return Boolean(this.Recognition);
+  }
+
+  start({ lang, onSegment, onError }: SpeechRecognitionOptions): void {
+    if (!this.isSupported()) {
+      onError?.(new Error('Speech recognition is not supported in this browser'));
+      return;
+    }
+    this.stop();
+    this.active = true;
+    const session = ++this.session;
+    const startedAt = new Map<number, number>();
+
+    const recognition = new this.Recognition();
+    recognition.lang = lang;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event: any) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const text = result[0]?.transcript?.trim();
+        if (!text) continue;
+        if (!startedAt.has(i)) startedAt.set(i, Date.now());
+        onSegment({ id: `${session}-${i}`, text, final: result.isFinal, lang, startedAt: startedAt.get(i)! });
+      }
+    };
+    recognition.onerror = (event: any) => {
+      // Silence and aborts are routine; anything else (denied mic, network) ends captioning
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      this.active = false;
+      onError?.(new Error(`Speech recognition error: ${event.error}`));
+    };
+    recognition.onend = () => {
+      if (!this.active || this.recognition !== recognition) return;
+      setTimeout(() => {
+        if (this.active && this.recognition === recognition) this.start({ lang, onSegment, onError });
+      }, RESTART_DELAY_MS);
+    };
+
+    this.recognition = recognition;
+    recognition.start();
+  }
+
+  stop(): void {
+    this.active = false;
+    const recognition = this.recognition;
+    this.recognition = null;
+    recognition?.abort();
+  }
+}
+
+const DEFAULT_MOCK_SCRIPT = [
+  'Hello everyone',
+  'Can you all hear me',
+  'Let us get started with the agenda'
+];
+
+/**
+ * Offline engine for tests and demos: cycles through a script, sending each line
+ * as an interim half-sentence followed by the final text.
+ */
+export class MockSpeechProvider implements SpeechToTextProvider {
+  readonly name = 'mock';
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private script: string[] = DEFAULT_MOCK_SCRIPT, private intervalMs = 3000) {}
+
+  isSupported(): boolean {
+    return this.script.length > 0;
+  }
+
+  start({ lang, onSegment }: SpeechRecognitionOptions): void {
+    this.stop();
+    let count = 0;
+    let pending: SpeechSegment | null = null;
+
+    // Ticks alternate between the interim and final version of a line
+    this.timer = setInterval(() => {
+      if (pending) {
+        onSegment({ ...pending, final: true });
+        pending = null;
+        return;
+      }
+      const text = this.script[count % this.script.length];
+      const words = text.split(' ');
+      pending = { id: `mock-${++count}`, text, final: false, lang, startedAt: Date.now() };
+      onSegment({ ...pending, text: words.slice(0, Math.ceil(words.length / 2)).join(' ') });
+    }, this.intervalMs / 2);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+/**
+ * Build the engine selected by NEXT_PUBLIC_STT_PROVIDER (default: webspeech); "off" disables captions
+ */
+export function createSpeechToTextProvider(name = process.env.NEXT_PUBLIC_STT_PROVIDER || 'webspeech'): SpeechToTextProvider | null {
+  switch (name.toLowerCase()) {
+    case 'webspeech':
+      return new WebSpeechProvider();
+    case 'mock':
+      return new MockSpeechProvider();
+    case 'off':
+      return null;
+    default:
+      throw new Error(`Unknown NEXT_PUBLIC_STT_PROVIDER "${name}" (expected webspeech, mock or off)`);
+  }
+}
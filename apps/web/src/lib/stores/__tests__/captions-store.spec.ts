@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useCaptionsStore, type Caption } from '../captions-store';
+
+const caption = (overrides: Partial<Caption> = {}): Caption => ({
+  id: 's1',
+  peerId: 'peer-1',
+  text: 'Hallo zusammen',
+  final: false,
+  startedAt: 1000,
+  ts: 1000,
+  ...overrides
+});
+
+describe('Captions store', () => {
+  beforeEach(() => {
+    useCaptionsStore.getState().actions.setCaptionsEnabled(true);
+    useCaptionsStore.getState().actions.clearCaptions();
+  });
+
+  it('keeps the latest caption per speaker', () => {
+    const { actions } = useCaptionsStore.getState();
+    actions.showCaption(caption({ text: 'Hallo' }));
+    actions.showCaption(caption({ text: 'Hallo zusammen', final: true, translated: 'Hello everyone' }));
+    actions.showCaption(caption({ id: 'x', peerId: 'peer-2', text: 'hi' }));
+
+    const { captionsByPeer } = useCaptionsStore.getState();
+    expect(captionsByPeer['peer-1']).toMatchObject({ text: 'Hallo zusammen', translated: 'Hello everyone', final: true });
+    expect(captionsByPeer['peer-2'].text).toBe('hi');
+  });
+
+  it('ignores an interim update that arrives after the final text', () => {
+    const { actions } = useCaptionsStore.getState();
+    actions.showCaption(caption({ final: true }));
+    actions.showCaption(caption({ text: 'Hallo', final: false }));
+    expect(useCaptionsStore.getState().captionsByPeer['peer-1'].final).toBe(true);
+  });
+
+  it('clearCaption only removes the caption it was scheduled for', () => {
+    const { actions } = useCaptionsStore.getState();
+    actions.showCaption(caption({ id: 's1' }));
+    actions.showCaption(caption({ id: 's2', text: 'next' }));
+    actions.clearCaption('peer-1', 's1');
+    expect(useCaptionsStore.getState().captionsByPeer['peer-1'].id).toBe('s2');
+    actions.clearCaption('peer-1');
+    expect(useCaptionsStore.getState().captionsByPeer['peer-1']).toBeUndefined();
+  });
+
+  it('turning captions off drops what is shown', () => {
+    const { actions } = useCaptionsStore.getState();
+    actions.showCaption(caption());
+    actions.setCaptionsEnabled(false);
+    expect(useCaptionsStore.getState()).toMatchObject({ enabled: false, captionsByPeer: {} });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useChatStore } from '../chat-store';
+
+describe('Chat store delivery status', () => {
+  beforeEach(() => {
+    useChatStore.getState().actions.clearChat();
+  });
+
+  it('addMessage keeps a provided server timestamp', () => {
+    const { actions } = useChatStore.getState();
+    actions.addMessage({ id: 'm1', original: 'hi', timestamp: 1234 });
+    expect(useChatStore.getState().messagesById['m1'].timestamp).toBe(1234);
+  });
+
+  it('confirmMessage re-keys a pending message to the server id in place', () => {
+    const { actions } = useChatStore.getState();
+    actions.addMessage({ id: 'local-1', original: 'first', status: 'pending' });
+    actions.addMessage({ id: 'srv-2', original: 'second' });
+    actions.confirmMessage('local-1', { id: 'srv-1', timestamp: 42 });
+
+    const s = useChatStore.getState();
+    expect(s.messageIds).toEqual(['srv-1', 'srv-2']);
+    expect(s.messagesById['local-1']).toBeUndefined();
+    expect(s.messagesById['srv-1']).toMatchObject({ id: 'srv-1', original: 'first', status: 'sent', timestamp: 42 });
+  });
+
+  it('confirmMessage is a no-op for unknown local ids', () => {
+    const { actions } = useChatStore.getState();
+    actions.addMessage({ id: 'm1', original: 'hi' });
+    const before = useChatStore.getState();
+    actions.confirmMessage('missing', { id: 'srv', timestamp: 1 });
+    expect(useChatStore.getState()).toBe(before);
+  });
+
+  it('setMessageStatus records delivered count', () => {
+    const { actions } = useChatStore.getState();
+    actions.addMessage({ id: 'm1', original: 'hi', status: 'sent' });
+    actions.setMessageStatus('m1', 'delivered', 3);
+    expect(useChatStore.getState().messagesById['m1']).toMatchObject({ status: 'delivered', deliveredTo: 3 });
+
+    actions.setMessageStatus('m1', 'failed');
+    expect(useChatStore.getState().messagesById['m1']).toMatchObject({ status: 'failed', deliveredTo: 3 });
+  });
+});
@@ -1,11 +1,13 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { useRoomStore } from '../../stores/room-store';
 
+const initialState = useRoomStore.getState();
+
 function resetStore() {
-  const initial = useRoomStore.getState();
-  // Deep clone initial to avoid shared references
-  const snapshot = JSON.parse(JSON.stringify(initial));
-  useRoomStore.setState(snapshot, true);
+  // Deep clone initial to avoid shared references; the actions live in the state and a
+  // JSON round trip would drop them, so they are carried over as they are
+  const { actions, ...slices } = initialState;
+  useRoomStore.setState({ ...structuredClone(slices), actions }, true);
 }
 
 describe('Room store actions', () => {
@@ -45,6 +47,17 @@ describe('Room store actions', () => {
     expect(s.peers.pinnedPeerId).toBeNull();
   });
 
+  it('removePeer clears the active speaker only when it was them', () => {
+    const { actions } = useRoomStore.getState();
+    actions.upsertPeer({ id: 'p1', name: 'A' });
+    actions.upsertPeer({ id: 'p2', name: 'B' });
+    actions.setActiveSpeaker('p1');
+    actions.removePeer('p2');
+    expect(useRoomStore.getState().peers.activeSpeakerId).toBe('p1');
+    actions.removePeer('p1');
+    expect(useRoomStore.getState().peers.activeSpeakerId).toBeNull();
+  });
+
   it('setPeerSpeaking is a no-op when value unchanged', () => {
     const { actions } = useRoomStore.getState();
     actions.upsertPeer({ id: 'p3', speaking: true });
@@ -132,4 +145,100 @@ describe('Room store actions', () => {
     expect(s.media.local.micEnabled).toBe(false);
     expect(s.media.local.camEnabled).toBe(true); // preserved
   });
-});
\ No newline at end of file
+
+  it('leaveRoom also forgets host, lobby and error state', () => {
+    const { actions } = useRoomStore.getState();
+    actions.setConnectionState({ selfId: 'me', hostId: 'me', locked: true, error: 'Nope' });
+    actions.addKnock({ id: 'k1', name: 'Guest' });
+
+    actions.leaveRoom();
+    const { connection } = useRoomStore.getState();
+    expect(connection.selfId).toBeNull();
+    expect(connection.hostId).toBeNull();
+    expect(connection.locked).toBe(false);
+    expect(connection.knocks).toEqual([]);
+    expect(connection.error).toBeNull();
+  });
+
+  it('joinDenied returns to the setup form with the reason and lets us ask again', () => {
+    const { actions } = useRoomStore.getState();
+    actions.setConnectionState({ status: 'connected', lobbyStatus: 'waiting' });
+
+    actions.joinDenied();
+    const { connection } = useRoomStore.getState();
+    expect(connection.lobbyStatus).toBe('idle');
+    expect(connection.joined).toBe(false);
+    expect(connection.status).toBe('connected');
+    expect(connection.error).toBe('The host declined your request to join.');
+  });
+
+  it('removedByHost ends the visit for good without looking like a dropped connection', () => {
+    const { actions } = useRoomStore.getState();
+    actions.joinRoom('room1', 'Alice', 'en');
+    actions.setConnectionState({ status: 'connected', selfId: 'me', hostId: 'h1' });
+    actions.upsertPeer({ id: 'h1', name: 'Host' });
+
+    actions.removedByHost();
+    const { connection, peers } = useRoomStore.getState();
+    expect(connection.status).toBe('ended');
+    expect(connection.joined).toBe(false);
+    expect(connection.selfId).toBeNull();
+    expect(connection.roomId).toBe('room1');
+    expect(connection.error).toBe('You were removed from the meeting by the host.');
+    expect(peers.peerOrder).toEqual([]);
+  });
+
+  it('addKnock ignores repeats and removeKnock drops one', () => {
+    const { actions } = useRoomStore.getState();
+    actions.addKnock({ id: 'k1', name: 'A' });
+    actions.addKnock({ id: 'k1', name: 'A' });
+    actions.addKnock({ id: 'k2', name: 'B' });
+    actions.removeKnock('k1');
+
+    expect(useRoomStore.getState().connection.knocks).toEqual([{ id: 'k2', name: 'B' }]);
+  });
+
+  it('toggleLocalMute flips one peer and clearPeers drops everyone', () => {
+    const { actions } = useRoomStore.getState();
+    actions.upsertPeer({ id: 'p1' });
+    actions.upsertPeer({ id: 'p2' });
+    actions.toggleLocalMute('p1');
+
+    let s = useRoomStore.getState();
+    expect(s.peers.peerMap['p1'].locallyMuted).toBe(true);
+    expect(s.peers.peerMap['p2'].locallyMuted).toBeUndefined();
+
+    actions.clearPeers();
+    s = useRoomStore.getState();
+    expect(s.peers.peerOrder).toEqual([]);
+    expect(s.peers.peerMap).toEqual({});
+  });
+
+  it('confirmMessage keeps the server sequence for paging back', () => {
+    const { actions } = useRoomStore.getState();
+    actions.addMessage({ id: 'local-1', original: 'hi', status: 'pending' });
+    actions.confirmMessage('local-1', { id: 'm1', timestamp: 5, seq: 7 });
+
+    const s = useRoomStore.getState();
+    expect(s.chat.messageIds).toEqual(['m1']);
+    expect(s.chat.messagesById['m1']).toMatchObject({ seq: 7, timestamp: 5, status: 'sent' });
+  });
+
+  it('loadHistory replaces messages and prependHistory puts older ones first', () => {
+    const { actions } = useRoomStore.getState();
+    actions.addMessage({ id: 'stale', original: 'before reconnect' });
+    actions.loadHistory([{ id: 'm2', seq: 2, original: 'b', timestamp: 2 }], true);
+
+    let s = useRoomStore.getState();
+    expect(s.chat.messageIds).toEqual(['m2']);
+    expect(s.chat.hasMoreHistory).toBe(true);
+
+    actions.prependHistory([
+      { id: 'm1', seq: 1, original: 'a', timestamp: 1 },
+      { id: 'm2', seq: 2, original: 'b', timestamp: 2 }
+    ], false);
+    s = useRoomStore.getState();
+    expect(s.chat.messageIds).toEqual(['m1', 'm2']);
+    expect(s.chat.hasMoreHistory).toBe(false);
+  });
+});
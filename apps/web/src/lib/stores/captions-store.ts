@@ -0,0 +1,77 @@
+/**
+ * Live captions store
+ * Holds the caption currently shown for each speaker ('local' for yourself)
+ */
+
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+
+export interface Caption {
+  /** Segment id; interim updates of an utterance share it */
+  id: string;
+  peerId: string;
+  name?: string;
+  text: string;
+  /** Translation into the viewer's language; empty when none is needed */
+  translated?: string;
+  lang?: string;
+  final: boolean;
+  startedAt: number;
+  ts: number;
+}
+
+interface CaptionsState {
+  enabled: boolean;
+  captionsByPeer: Record<string, Caption>;
+}
+
+interface CaptionsStore extends CaptionsState {
+  actions: {
+    setCaptionsEnabled: (enabled: boolean) => void;
+    showCaption: (caption: Caption) => void;
+    /** Clear a speaker's caption; with `captionId`, only if it is still the one shown */
+    clearCaption: (peerId: string, captionId?: string) => void;
+    clearCaptions: () => void;
+  };
+}
+
+export const useCaptionsStore = create<CaptionsStore>()(
+  subscribeWithSelector((set) => ({
+    enabled: false,
+    captionsByPeer: {},
+
+    actions: {
+      setCaptionsEnabled: (enabled) => set((s) => ({
+        ...s,
+        enabled,
+        captionsByPeer: enabled ? s.captionsByPeer : {}
+      })),
+
+      showCaption: (caption) => set((s) => {
+        const current = s.captionsByPeer[caption.peerId];
+        // A late interim update must not overwrite the final text of the same utterance
+        if (current?.id === caption.id && current.final && !caption.final) return s;
+
+        return {
+          ...s,
+          captionsByPeer: { ...s.captionsByPeer, [caption.peerId]: caption }
+        };
+      }),
+
+      clearCaption: (peerId, captionId) => set((s) => {
+        const current = s.captionsByPeer[peerId];
+        if (!current || (captionId && current.id !== captionId)) return s;
+
+        const { [peerId]: _, ...captionsByPeer } = s.captionsByPeer;
+        return { ...s, captionsByPeer };
+      }),
+
+      clearCaptions: () => set((s) => ({ ...s, captionsByPeer: {} }))
+    }
+  }))
+);
+
+// Selectors
+export const useCaptionsEnabled = () => useCaptionsStore(s => s.enabled);
+export const useCaption = (peerId: string) => useCaptionsStore(s => s.captionsByPeer[peerId]);
+export const useCaptionsActions = () => useCaptionsStore(s => s.actions);
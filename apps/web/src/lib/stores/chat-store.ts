@@ -6,13 +6,20 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 
+export type MessageStatus = 'pending' | 'sent' | 'delivered' | 'failed';
+
 export interface ChatMessage {
   id: string;
   from?: string;
   name?: string;
   original: string;
   translated?: string;
+  // Source language reported by translation, which may differ from the sender's UI language
+  detectedLang?: string;
   timestamp: number;
+  // Sender-side delivery state; absent on messages from other participants
+  status?: MessageStatus;
+  deliveredTo?: number;
 }
 
 interface ChatState {
@@ -24,7 +31,9 @@ interface ChatState {
 
 interface ChatStore extends ChatState {
   actions: {
-    addMessage: (message: Omit<ChatMessage, 'timestamp'>) => void;
+    addMessage: (message: Omit<ChatMessage, 'timestamp'> & { timestamp?: number }) => void;
+    confirmMessage: (localId: string, confirmed: { id: string; timestamp: number }) => void;
+    setMessageStatus: (messageId: string, status: MessageStatus, deliveredTo?: number) => void;
     updateMessageTranslation: (messageId: string, translated: string) => void;
     setChatInput: (input: string) => void;
     clearUnreadCount: () => void;
@@ -43,7 +52,7 @@ export const useChatStore = create<ChatStore>()(
     actions: {
       addMessage: (message) => set((s) => {
         const id = message.id;
-        const timestamp = Date.now();
+        const timestamp = message.timestamp ?? Date.now();
         const fullMessage = { ...message, timestamp };
         
         return {
@@ -53,6 +62,32 @@ export const useChatStore = create<ChatStore>()(
         };
       }),
       
+      // Swap the sender's local id for the server-assigned one once acked
+      confirmMessage: (localId, { id, timestamp }) => set((s) => {
+        const message = s.messagesById[localId];
+        if (!message) return s;
+        
+        const { [localId]: _, ...messagesById } = s.messagesById;
+        return {
+          ...s,
+          messageIds: s.messageIds.map(mid => mid === localId ? id : mid),
+          messagesById: { ...messagesById, [id]: { ...message, id, timestamp, status: 'sent' } }
+        };
+      }),
+      
+      setMessageStatus: (messageId, status, deliveredTo) => set((s) => {
+        const message = s.messagesById[messageId];
+        if (!message) return s;
+        
+        return {
+          ...s,
+          messagesById: {
+            ...s.messagesById,
+            [messageId]: { ...message, status, ...(deliveredTo !== undefined && { deliveredTo }) }
+          }
+        };
+      }),
+      
       updateMessageTranslation: (messageId, translated) => set((s) => {
         const message = s.messagesById[messageId];
         if (!message) return s;
@@ -9,8 +9,9 @@ export * from './peers-store';
 export * from './media-store';
 export * from './chat-store';
 export * from './ui-store';
+export * from './captions-store';
 
-// Export the original room store for backward compatibility during migration
+// The room page runs on the combined room store
 export { useRoomStore, useActions as useRoomActions } from './room-store';
 
 // Combined actions for convenience (optional)
@@ -19,7 +20,8 @@ export const useStoreActions = () => ({
   peers: usePeersActions(),
   media: useMediaActions(),
   chat: useChatActions(),
-  ui: useUIActions()
+  ui: useUIActions(),
+  captions: useCaptionsActions()
 });
 
 // Import hooks for combined actions
@@ -27,4 +29,5 @@ import { useConnectionActions } from './connection-store';
 import { usePeersActions } from './peers-store';
 import { useMediaActions } from './media-store';
 import { useChatActions } from './chat-store';
-import { useUIActions } from './ui-store';
\ No newline at end of file
+import { useUIActions } from './ui-store';
+import { useCaptionsActions } from './captions-store';
\ No newline at end of file
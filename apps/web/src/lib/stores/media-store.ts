@@ -1,10 +1,11 @@
 /**
  * Media state management store
  * Handles local media controls and device enumeration
+ * The chosen devices are remembered in localStorage for the next call.
  */
 
 import { create } from 'zustand';
-import { subscribeWithSelector } from 'zustand/middleware';
+import { createJSONStorage, persist, subscribeWithSelector } from 'zustand/middleware';
 
 interface LocalMediaState {
   micEnabled: boolean;
@@ -12,6 +13,7 @@ interface LocalMediaState {
   screenEnabled: boolean;
   selectedMicId?: string;
   selectedCamId?: string;
+  selectedSpeakerId?: string;
   micLevel: number;
 }
 
@@ -33,11 +35,14 @@ interface MediaStore {
     setMicLevel: (level: number) => void;
     setSelectedMic: (deviceId?: string) => void;
     setSelectedCam: (deviceId?: string) => void;
+    setSelectedSpeaker: (deviceId?: string) => void;
   };
 }
 
+type DevicePreferences = Pick<LocalMediaState, 'selectedMicId' | 'selectedCamId' | 'selectedSpeakerId'>;
+
 export const useMediaStore = create<MediaStore>()(
-  subscribeWithSelector((set) => ({
+  subscribeWithSelector(persist((set) => ({
     local: {
       micEnabled: true,
       camEnabled: true,
@@ -90,8 +95,19 @@ export const useMediaStore = create<MediaStore>()(
       setSelectedCam: (selectedCamId) => set((s) => ({
         ...s,
         local: { ...s.local, selectedCamId }
+      })),
+
+      setSelectedSpeaker: (selectedSpeakerId) => set((s) => ({
+        ...s,
+        local: { ...s.local, selectedSpeakerId }
       }))
     }
+  }), {
+    name: 'supichat:devices',
+    storage: createJSONStorage<DevicePreferences>(() => localStorage),
+    // Only the device choices outlive the call
+    partialize: ({ local: { selectedMicId, selectedCamId, selectedSpeakerId } }) => ({ selectedMicId, selectedCamId, selectedSpeakerId }),
+    merge: (persisted, current) => ({ ...current, local: { ...current.local, ...(persisted as DevicePreferences | undefined) } })
   }))
 );
 
@@ -5,6 +5,7 @@
 
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import type { MediaConnectionState } from '../webrtc';
 
 export interface Peer {
   id: string;
@@ -14,28 +15,60 @@ export interface Peer {
   camEnabled?: boolean;
   speaking?: boolean;
   audioLevel?: number;
+  /** Health of our media connection to this peer */
+  connection?: MediaConnectionState;
+  /** Silenced on this device only; they are still heard by everyone else */
+  locallyMuted?: boolean;
 }
 
+/** Someone waiting in the lobby for the host to let them in */
+export interface Knock {
+  id: string;
+  name?: string;
+  lang?: string;
+}
+
+export type MessageStatus = 'pending' | 'sent' | 'delivered' | 'failed';
+
 export interface ChatMessage {
   id: string;
   from?: string;
   name?: string;
   original: string;
   translated?: string;
+  // Source language reported by translation, which may differ from the sender's UI language
+  detectedLang?: string;
   timestamp: number;
+  // Position in the room's history, used to page back through older messages
+  seq?: number;
+  // Sender-side delivery state; absent on messages from other participants
+  status?: MessageStatus;
+  deliveredTo?: number;
 }
 
 interface ConnectionState {
   roomId: string | null;
   joined: boolean;
   socketConnected: boolean;
-  status: 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+  /** 'ended' means the server closed our connection on purpose; nothing reconnects it */
+  status: 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'ended';
+  /** Our participant id, issued on admission and kept across reconnects */
+  selfId: string | null;
+  hostId: string | null;
+  locked: boolean;
+  lobbyStatus: 'idle' | 'requesting' | 'waiting';
+  /** Lobby requests; only the host receives them */
+  knocks: Knock[];
+  /** Why we could not join, or why we had to leave */
+  error: string | null;
 }
 
 interface PeersState {
   peerOrder: string[];
   peerMap: Record<string, Peer>;
   pinnedPeerId: string | null;
+  /** Dominant remote speaker, followed by the spotlight layout unless someone is pinned */
+  activeSpeakerId: string | null;
 }
 
 interface MediaState {
@@ -45,6 +78,8 @@ interface MediaState {
     screenEnabled: boolean;
     selectedMicId?: string;
     selectedCamId?: string;
+    selectedSpeakerId?: string;
+    /** 0..1 */
     micLevel: number;
   };
   devices: {
@@ -59,6 +94,8 @@ interface ChatState {
   messagesById: Record<string, ChatMessage>;
   chatInput: string;
   unreadCount: number;
+  /** The server holds messages older than the first one loaded */
+  hasMoreHistory: boolean;
 }
 
 interface UIState {
@@ -74,6 +111,8 @@ interface UIState {
     name: string;
     lang: string;
   };
+  /** Short-lived message about something that happened to us, e.g. the host muting our mic */
+  notice: string | null;
 }
 
 interface RoomStore {
@@ -87,6 +126,10 @@ interface RoomStore {
     setConnectionState: (state: Partial<ConnectionState>) => void;
     joinRoom: (roomId: string, name: string, lang: string) => void;
     leaveRoom: () => void;
+    joinDenied: () => void;
+    removedByHost: () => void;
+    addKnock: (knock: Knock) => void;
+    removeKnock: (knockId: string) => void;
     
     // Peer actions
     upsertPeer: (peer: Peer) => void;
@@ -95,6 +138,9 @@ interface RoomStore {
     setPeerSpeaking: (peerId: string, speaking: boolean) => void;
     setPeerAudioLevel: (peerId: string, level: number) => void;
     setPinnedPeer: (peerId: string | null) => void;
+    setActiveSpeaker: (peerId: string | null) => void;
+    toggleLocalMute: (peerId: string) => void;
+    clearPeers: () => void;
     
     // Media actions
     setLocalMediaState: (state: Partial<MediaState['local']>) => void;
@@ -104,33 +150,62 @@ interface RoomStore {
     setMicLevel: (level: number) => void;
     
     // Chat actions
-    addMessage: (message: Omit<ChatMessage, 'timestamp'>) => void;
-    updateMessageTranslation: (messageId: string, translated: string) => void;
+    addMessage: (message: Omit<ChatMessage, 'timestamp'> & { timestamp?: number }) => void;
+    confirmMessage: (localId: string, confirmed: { id: string; timestamp: number; seq?: number }) => void;
+    setMessageStatus: (messageId: string, status: MessageStatus, deliveredTo?: number) => void;
+    updateMessageTranslation: (messageId: string, translated: string, detectedLang?: string) => void;
     setChatInput: (input: string) => void;
     clearUnreadCount: () => void;
+    loadHistory: (messages: ChatMessage[], hasMore: boolean) => void;
+    prependHistory: (messages: ChatMessage[], hasMore: boolean) => void;
     
     // UI actions
     toggleSidebar: () => void;
+    setSidebarOpen: (open: boolean) => void;
     setSidebarTab: (tab: 'people' | 'chat') => void;
     setLayout: (layout: Partial<UIState['layout']>) => void;
     setUser: (user: Partial<UIState['user']>) => void;
+    setNotice: (notice: string | null) => void;
   };
 }
 
+const initialConnection: ConnectionState = {
+  roomId: null,
+  joined: false,
+  socketConnected: false,
+  status: 'connecting',
+  selfId: null,
+  hostId: null,
+  locked: false,
+  lobbyStatus: 'idle',
+  knocks: [],
+  error: null
+};
+
+const initialPeers: PeersState = {
+  peerOrder: [],
+  peerMap: {},
+  pinnedPeerId: null,
+  activeSpeakerId: null
+};
+
+const initialChat: ChatState = {
+  messageIds: [],
+  messagesById: {},
+  chatInput: '',
+  unreadCount: 0,
+  hasMoreHistory: false
+};
+
+function indexMessages(messages: ChatMessage[]): Record<string, ChatMessage> {
+  return Object.fromEntries(messages.map(m => [m.id, m]));
+}
+
 export const useRoomStore = create<RoomStore>()(
   subscribeWithSelector((set, get) => ({
-    connection: {
-      roomId: null,
-      joined: false,
-      socketConnected: false,
-      status: 'connecting'
-    },
+    connection: initialConnection,
     
-    peers: {
-      peerOrder: [],
-      peerMap: {},
-      pinnedPeerId: null
-    },
+    peers: initialPeers,
     
     media: {
       local: {
@@ -146,12 +221,7 @@ export const useRoomStore = create<RoomStore>()(
       }
     },
     
-    chat: {
-      messageIds: [],
-      messagesById: {},
-      chatInput: '',
-      unreadCount: 0
-    },
+    chat: initialChat,
     
     ui: {
       panels: {
@@ -164,7 +234,8 @@ export const useRoomStore = create<RoomStore>()(
       user: {
         name: '',
         lang: process.env.NEXT_PUBLIC_DEFAULT_LANG || 'en'
-      }
+      },
+      notice: null
     },
     
     actions: {
@@ -178,10 +249,37 @@ export const useRoomStore = create<RoomStore>()(
         ui: { ...s.ui, user: { ...s.ui.user, name, lang } }
       })),
       
-      leaveRoom: () => set((s) => ({
-        connection: { roomId: null, joined: false, socketConnected: false, status: 'connecting' },
-        peers: { peerOrder: [], peerMap: {}, pinnedPeerId: null },
-        chat: { messageIds: [], messagesById: {}, chatInput: '', unreadCount: 0 }
+      leaveRoom: () => set(() => ({
+        connection: initialConnection,
+        peers: initialPeers,
+        chat: initialChat
+      })),
+      
+      // Back to the setup form, free to ask again
+      joinDenied: () => set((s) => ({
+        connection: { ...s.connection, joined: false, lobbyStatus: 'idle', error: 'The host declined your request to join.' }
+      })),
+      
+      // The server drops our connection right after, so this is where the visit ends
+      removedByHost: () => set((s) => ({
+        connection: {
+          ...initialConnection,
+          roomId: s.connection.roomId,
+          status: 'ended',
+          error: 'You were removed from the meeting by the host.'
+        },
+        peers: initialPeers
+      })),
+      
+      addKnock: (knock) => set((s) => {
+        if (s.connection.knocks.some(k => k.id === knock.id)) return {};
+        return {
+          connection: { ...s.connection, knocks: [...s.connection.knocks, knock] }
+        };
+      }),
+      
+      removeKnock: (knockId) => set((s) => ({
+        connection: { ...s.connection, knocks: s.connection.knocks.filter(k => k.id !== knockId) }
       })),
       
       // Peer actions
@@ -207,7 +305,8 @@ export const useRoomStore = create<RoomStore>()(
             ...s.peers,
             peerOrder: s.peers.peerOrder.filter(id => id !== peerId),
             peerMap,
-            pinnedPeerId: s.peers.pinnedPeerId === peerId ? null : s.peers.pinnedPeerId
+            pinnedPeerId: s.peers.pinnedPeerId === peerId ? null : s.peers.pinnedPeerId,
+            activeSpeakerId: s.peers.activeSpeakerId === peerId ? null : s.peers.activeSpeakerId
           }
         };
       }),
@@ -258,6 +357,28 @@ export const useRoomStore = create<RoomStore>()(
         peers: { ...s.peers, pinnedPeerId: peerId }
       })),
       
+      setActiveSpeaker: (peerId) => set((s) => ({
+        peers: { ...s.peers, activeSpeakerId: peerId }
+      })),
+      
+      toggleLocalMute: (peerId) => set((s) => {
+        const peer = s.peers.peerMap[peerId];
+        if (!peer) return {};
+        return {
+          peers: {
+            ...s.peers,
+            peerMap: {
+              ...s.peers.peerMap,
+              [peerId]: { ...peer, locallyMuted: !peer.locallyMuted }
+            }
+          }
+        };
+      }),
+      
+      clearPeers: () => set(() => ({
+        peers: initialPeers
+      })),
+      
       // Media actions
       setLocalMediaState: (state) => set((s) => ({
         media: {
@@ -297,7 +418,7 @@ export const useRoomStore = create<RoomStore>()(
       // Chat actions
       addMessage: (message) => set((s) => {
         const id = message.id;
-        const timestamp = Date.now();
+        const timestamp = message.timestamp ?? Date.now();
         const fullMessage = { ...message, timestamp };
         
         return {
@@ -310,7 +431,37 @@ export const useRoomStore = create<RoomStore>()(
         };
       }),
       
-      updateMessageTranslation: (messageId, translated) => set((s) => {
+      // Swap the sender's local id for the server-assigned one once acked
+      confirmMessage: (localId, { id, timestamp, seq }) => set((s) => {
+        const message = s.chat.messagesById[localId];
+        if (!message) return {};
+        
+        const { [localId]: _, ...messagesById } = s.chat.messagesById;
+        return {
+          chat: {
+            ...s.chat,
+            messageIds: s.chat.messageIds.map(mid => mid === localId ? id : mid),
+            messagesById: { ...messagesById, [id]: { ...message, id, timestamp, seq, status: 'sent' } }
+          }
+        };
+      }),
+      
+      setMessageStatus: (messageId, status, deliveredTo) => set((s) => {
+        const message = s.chat.messagesById[messageId];
+        if (!message) return {};
+        
+        return {
+          chat: {
+            ...s.chat,
+            messagesById: {
+              ...s.chat.messagesById,
+              [messageId]: { ...message, status, ...(deliveredTo !== undefined && { deliveredTo }) }
+            }
+          }
+        };
+      }),
+      
+      updateMessageTranslation: (messageId, translated, detectedLang) => set((s) => {
         const message = s.chat.messagesById[messageId];
         if (!message) return {};
         
@@ -319,7 +470,7 @@ export const useRoomStore = create<RoomStore>()(
             ...s.chat,
             messagesById: {
               ...s.chat.messagesById,
-              [messageId]: { ...message, translated }
+              [messageId]: { ...message, translated, ...(detectedLang && { detectedLang }) }
             }
           }
         };
@@ -333,6 +484,28 @@ export const useRoomStore = create<RoomStore>()(
         chat: { ...s.chat, unreadCount: 0 }
       })),
       
+      // Replaces what we have; the server replays recent history on every (re)join
+      loadHistory: (messages, hasMore) => set((s) => ({
+        chat: {
+          ...s.chat,
+          messageIds: messages.map(m => m.id),
+          messagesById: indexMessages(messages),
+          hasMoreHistory: hasMore
+        }
+      })),
+      
+      prependHistory: (messages, hasMore) => set((s) => {
+        const older = messages.filter(m => !s.chat.messagesById[m.id]);
+        return {
+          chat: {
+            ...s.chat,
+            messageIds: [...older.map(m => m.id), ...s.chat.messageIds],
+            messagesById: { ...indexMessages(older), ...s.chat.messagesById },
+            hasMoreHistory: hasMore
+          }
+        };
+      }),
+      
       // UI actions
       toggleSidebar: () => set((s) => ({
         ui: {
@@ -341,6 +514,13 @@ export const useRoomStore = create<RoomStore>()(
         }
       })),
       
+      setSidebarOpen: (open) => set((s) => ({
+        ui: {
+          ...s.ui,
+          panels: { ...s.ui.panels, sidebarOpen: open }
+        }
+      })),
+      
       setSidebarTab: (tab) => set((s) => ({
         ui: {
           ...s.ui,
@@ -360,6 +540,10 @@ export const useRoomStore = create<RoomStore>()(
           ...s.ui,
           user: { ...s.ui.user, ...user }
         }
+      })),
+      
+      setNotice: (notice) => set((s) => ({
+        ui: { ...s.ui, notice }
       }))
     }
   }))
@@ -375,5 +559,9 @@ export const useUI = () => useRoomStore(s => s.ui);
 // Specific selectors to minimize re-renders
 export const usePeerIds = () => useRoomStore(s => s.peers.peerOrder);
 export const usePeer = (peerId: string) => useRoomStore(s => s.peers.peerMap[peerId]);
+export const usePinnedPeerId = () => useRoomStore(s => s.peers.pinnedPeerId);
+export const useActiveSpeakerId = () => useRoomStore(s => s.peers.activeSpeakerId);
+export const useGridMode = () => useRoomStore(s => s.ui.layout.gridMode);
+export const useMessageIds = () => useRoomStore(s => s.chat.messageIds);
 export const useMessage = (messageId: string) => useRoomStore(s => s.chat.messagesById[messageId]);
 export const useActions = () => useRoomStore(s => s.actions);
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * Meeting transcripts
+ * Chat, captions and join/leave events merged into one time-ordered document,
+ * optionally translated into one language, and rendered as plain text, SubRip,
+ * WebVTT, Markdown or JSON.
+ */
+
+import { isSameLang } from './i18n';
+import type { RoomTranscript } from './signaling-api';
+import type { TranslationResult } from './translation-providers';
+
+export const TRANSCRIPT_FORMATS = ['txt', 'srt', 'vtt', 'md', 'json'] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  txt: 'text/plain; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+export interface TranscriptEntry {
+  kind: 'chat' | 'caption' | 'join' | 'leave';
+  /** ms since epoch */
+  start: number;
+  end: number;
+  speaker: string;
+  text?: string;
+  /** Language of `text`: detected for chat when translated, the recogniser's for captions */
+  lang?: string;
+  /** `text` in the transcript language; absent when it is already in that language */
+  translated?: string;
+}
+
+export interface Transcript {
+  roomId: string;
+  title?: string;
+  /** Language translations are rendered in; unset for an originals-only transcript */
+  lang?: string;
+  startedAt: number;
+  entries: TranscriptEntry[];
+}
+
+export type BatchTranslator = (texts: string[], targetLang: string, sourceLang?: string) => Promise<TranslationResult[]>;
+
+// Subtitle cue length for chat lines and events, cut short by the next cue
+const CUE_MS = 4000;
+const MIN_CAPTION_MS = 1000;
+
+export function isTranscriptFormat(value: string): value is TranscriptFormat {
+  return (TRANSCRIPT_FORMATS as readonly string[]).includes(value);
+}
+
+export function buildTranscript({ room, messages, events }: RoomTranscript): Transcript {
+  const entries: TranscriptEntry[] = [
+    ...messages.map((m): TranscriptEntry => ({
+      kind: 'chat', start: m.ts, end: m.ts + CUE_MS, speaker: m.name || 'Guest', text: m.msg, lang: m.lang
+    })),
+    ...events.map((e): TranscriptEntry => {
+      const speaker = e.name || 'Guest';
+      if (e.type !== 'caption') return { kind: e.type, start: e.ts, end: e.ts + CUE_MS, speaker };
+      const start = e.startedAt ?? e.ts;
+      return { kind: 'caption', start, end: Math.max(e.ts, start + MIN_CAPTION_MS), speaker, text: e.text, lang: e.lang };
+    })
+  ].sort((a, b) => a.start - b.start);
+
+  return { roomId: room.id, title: room.title, startedAt: entries[0]?.start ?? room.createdAt, entries };
+}
+
+/**
+ * Fill in translations into `lang`. Chat goes through detection because the sender's
+ * UI language says little about what they typed; captions carry the recogniser's language.
+ */
+export async function translateTranscript(transcript: Transcript, lang: string, translate: BatchTranslator): Promise<Transcript> {
+  const entries = transcript.entries.map(entry => ({ ...entry }));
+
+  // Source language -> entries; '' means detect
+  const groups = new Map<string, TranscriptEntry[]>();
+  for (const entry of entries) {
+    if (!entry.text || (entry.kind !== 'chat' && entry.kind !== 'caption')) continue;
+    const source = entry.kind === 'caption' ? entry.lang ?? '' : '';
+    if (source && isSameLang(source, lang)) continue;
+    if (!groups.has(source)) groups.set(source, []);
+    groups.get(source)!.push(entry);
+  }
+
+  await Promise.all(Array.from(groups, async ([source, group]) => {
+    const results = await translate(group.map(entry => entry.text!), lang, source || undefined);
+    group.forEach((entry, i) => {
+      const { text, detectedLang } = results[i] ?? { text: '' };
+      if (detectedLang) entry.lang = detectedLang;
+      if (text && !isSameLang(entry.lang, lang)) entry.translated = text;
+    });
+  }));
+
+  return { ...transcript, lang, entries };
+}
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, '0');
+}
+
+// HH:MM:SS since the start of the meeting, with milliseconds for subtitle formats
+function offset(ms: number, millisSeparator?: ',' | '.'): string {
+  const total = Math.max(0, Math.floor(ms));
+  const hms = `${pad(Math.floor(total / 3600000))}:${pad(Math.floor(total / 60000) % 60)}:${pad(Math.floor(total / 1000) % 60)}`;
+  return millisSeparator ? `${hms}${millisSeparator}${pad(total % 1000, 3)}` : hms;
+}
+
+function eventText(entry: TranscriptEntry): string {
+  return entry.kind === 'join' ? `${entry.speaker} joined` : `${entry.speaker} left`;
+}
+
+function shownText(entry: TranscriptEntry): string {
+  return entry.translated || entry.text || '';
+}
+
+function speakerLabel(entry: TranscriptEntry): string {
+  return entry.kind === 'caption' ? `${entry.speaker} (spoken)` : entry.speaker;
+}
+
+function originalNote(entry: TranscriptEntry): string {
+  return `Original${entry.lang ? ` (${entry.lang.toUpperCase()})` : ''}: ${entry.text}`;
+}
+
+// Subtitle cues end when the next one starts so players never stack them
+function cueEnd(entries: TranscriptEntry[], i: number): number {
+  const entry = entries[i];
+  const next = entries[i + 1];
+  if (entry.kind === 'caption' || !next || next.start <= entry.start) return entry.end;
+  return Math.min(entry.end, next.start);
+}
+
+function formatText(t: Transcript): string {
+  const lines = [
+    `Meeting transcript: ${t.title || t.roomId}`,
+    `Started: ${new Date(t.startedAt).toISOString()}`,
+    ...(t.lang ? [`Language: ${t.lang.toUpperCase()}`] : []),
+    ''
+  ];
+  for (const entry of t.entries) {
+    const at = `[${offset(entry.start - t.startedAt)}]`;
+    if (entry.kind === 'join' || entry.kind === 'leave') {
+      lines.push(`${at} ${eventText(entry)}`);
+      continue;
+    }
+    lines.push(`${at} ${speakerLabel(entry)}: ${shownText(entry).replace(/\n/g, '\n    ')}`);
+    if (entry.translated) lines.push(`    ${originalNote(entry).replace(/\n/g, '\n    ')}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function formatMarkdown(t: Transcript): string {
+  const lines = [
+    `# Meeting transcript: ${t.title || t.roomId}`,
+    '',
+    `- **Started:** ${new Date(t.startedAt).toISOString()}`,
+    ...(t.lang ? [`- **Language:** ${t.lang.toUpperCase()}`] : []),
+    ''
+  ];
+  for (const entry of t.entries) {
+    const at = `\`${offset(entry.start - t.startedAt)}\``;
+    if (entry.kind === 'join' || entry.kind === 'leave') {
+      lines.push(`- ${at} _${eventText(entry)}_`);
+      continue;
+    }
+    lines.push(`- ${at} **${speakerLabel(entry)}:** ${shownText(entry).replace(/\n/g, '  \n  ')}`);
+    if (entry.translated) lines.push(`  _${originalNote(entry).replace(/\n/g, ' ')}_`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function cueText(entry: TranscriptEntry, vtt: boolean): string {
+  if (entry.kind === 'join' || entry.kind === 'leave') return eventText(entry);
+  const text = shownText(entry);
+  return vtt ? `<v ${entry.speaker}>${escapeVtt(text)}` : `${entry.speaker}: ${text}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function formatSubtitles(t: Transcript, vtt: boolean): string {
+  const separator = vtt ? '.' : ',';
+  const cues = t.entries.map((entry, i) => [
+    ...(vtt ? [] : [String(i + 1)]),
+    `${offset(entry.start - t.startedAt, separator)} --> ${offset(cueEnd(t.entries, i) - t.startedAt, separator)}`,
+    // A blank line would end the cue early
+    cueText(entry, vtt).replace(/\n\s*\n/g, '\n')
+  ].join('\n'));
+  return (vtt ? ['WEBVTT', ...cues] : cues).join('\n\n') + '\n';
+}
+
+export function formatTranscript(t: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'txt':
+      return formatText(t);
+    case 'md':
+      return formatMarkdown(t);
+    case 'srt':
+      return formatSubtitles(t, false);
+    case 'vtt':
+      return formatSubtitles(t, true);
+    case 'json':
+      return JSON.stringify(t, null, 2);
+  }
+}
+
+export function transcriptFileName(t: Transcript, format: TranscriptFormat): string {
+  return `transcript-${t.roomId}${t.lang ? `-${t.lang.toLowerCase()}` : ''}.${format}`;
+}
@@ -0,0 +1,224 @@
+/**
+ * Shared translation cache stores
+ * A second cache tier behind the in-process LRU in OptimizedTranslationService.
+ * Entries outlive deploys (file, Redis) and are shared between replicas (Redis),
+ * so repeated phrases in recurring meetings stay cheap.
+ */
+
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { RespClient } from './resp-client';
+import type { TranslationResult } from './translation-providers';
+
+export interface TranslationCacheStore {
+  readonly name: string;
+  get(key: string): Promise<TranslationResult | undefined>;
+  /** Results keep the order of `keys`; misses are undefined */
+  getMany(keys: string[]): Promise<(TranslationResult | undefined)[]>;
+  set(key: string, value: TranslationResult): Promise<void>;
+  /** Most recently written entries, newest first, for warming the in-process cache */
+  recent(limit: number): Promise<[string, TranslationResult][]>;
+  clear(): Promise<void>;
+}
+
+export interface CacheStoreOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+interface StoredEntry {
+  value: TranslationResult;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 50000;
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Larger, longer-lived in-process tier; also the stand-in for the shared stores in tests
+ */
+export class MemoryCacheStore implements TranslationCacheStore {
+  readonly name: string = 'memory';
+  protected entries = new Map<string, StoredEntry>();
+  protected ttlMs: number;
+  protected maxEntries: number;
+
+  constructor({ ttlMs = DEFAULT_TTL_MS, maxEntries = DEFAULT_MAX_ENTRIES }: CacheStoreOptions = {}) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<TranslationResult | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async getMany(keys: string[]): Promise<(TranslationResult | undefined)[]> {
+    return Promise.all(keys.map(key => this.get(key)));
+  }
+
+  async set(key: string, value: TranslationResult): Promise<void> {
+    // Re-insert so Map order tracks write recency
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async recent(limit: number): Promise<[string, TranslationResult][]> {
+    const now = Date.now();
+    const live = Array.from(this.entries).filter(([, entry]) => entry.expiresAt > now);
+    return live.slice(-limit).reverse().map(([key, entry]) => [key, entry.value]);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Memory store persisted to a JSON snapshot; writes are batched and atomic
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  readonly name = 'file';
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private filePath: string, options: CacheStoreOptions = {}) {
+    super(options);
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8'));
+      const now = Date.now();
+      for (const [key, entry] of data?.entries ?? []) {
+        if (entry?.expiresAt > now) this.entries.set(key, entry);
+      }
+    } catch (error) {
+      console.warn(`[TranslationCache] Ignoring unreadable cache file ${this.filePath}:`, error);
+    }
+  }
+
+  async set(key: string, value: TranslationResult): Promise<void> {
+    await super.set(key, value);
+    this.scheduleSave();
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => console.warn('[TranslationCache] Failed to save cache file:', error));
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+  }
+
+  async save(): Promise<void> {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    await writeFile(tmp, JSON.stringify({ entries: Array.from(this.entries) }));
+    await rename(tmp, this.filePath);
+  }
+}
+
+/**
+ * Redis (or any RESP-compatible server). Keys expire server-side; a capped list
+ * of recent keys backs warm-start without scanning the keyspace.
+ */
+export class RedisCacheStore implements TranslationCacheStore {
+  readonly name = 'redis';
+  private client: RespClient;
+  private ttlMs: number;
+  private maxEntries: number;
+
+  constructor(url: string, { ttlMs = DEFAULT_TTL_MS, maxEntries = DEFAULT_MAX_ENTRIES }: CacheStoreOptions = {}, private prefix = 'supichat:tx:') {
+    this.client = new RespClient(url);
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  private get recentKey(): string {
+    return `${this.prefix}recent`;
+  }
+
+  async get(key: string): Promise<TranslationResult | undefined> {
+    return parseEntry(await this.client.command('GET', this.prefix + key));
+  }
+
+  async getMany(keys: string[]): Promise<(TranslationResult | undefined)[]> {
+    if (keys.length === 0) return [];
+    const values = await this.client.command('MGET', ...keys.map(key => this.prefix + key));
+    return (values as (string | null)[]).map(parseEntry);
+  }
+
+  async set(key: string, value: TranslationResult): Promise<void> {
+    await Promise.all([
+      this.client.command('SET', this.prefix + key, JSON.stringify(value), 'PX', this.ttlMs),
+      this.client.command('LPUSH', this.recentKey, key),
+      this.client.command('LTRIM', this.recentKey, 0, this.maxEntries - 1)
+    ]);
+  }
+
+  async recent(limit: number): Promise<[string, TranslationResult][]> {
+    const keys = [...new Set(await this.client.command('LRANGE', this.recentKey, 0, limit - 1) as string[])];
+    const values = await this.getMany(keys);
+    return keys.flatMap((key, i) => values[i] ? [[key, values[i]!] as [string, TranslationResult]] : []);
+  }
+
+  // Only drops the warm-start index; entries age out through their TTL
+  async clear(): Promise<void> {
+    await this.client.command('DEL', this.recentKey);
+  }
+
+  close(): void {
+    this.client.close();
+  }
+}
+
+function parseEntry(raw: unknown): TranslationResult | undefined {
+  if (typeof raw !== 'string') return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the store selected by TRANSLATION_CACHE_STORE; unset means in-process caching only
+ */
+export function createTranslationCacheStore(env: NodeJS.ProcessEnv = process.env): TranslationCacheStore | undefined {
+  const seconds = Number.parseInt(env.TRANSLATION_CACHE_SHARED_TTL_SECONDS || '', 10);
+  const options: CacheStoreOptions = {
+    ttlMs: seconds > 0 ? seconds * 1000 : DEFAULT_TTL_MS,
+    maxEntries: Number.parseInt(env.TRANSLATION_CACHE_SHARED_MAX_ENTRIES || '', 10) || DEFAULT_MAX_ENTRIES
+  };
+
+  switch ((env.TRANSLATION_CACHE_STORE || '').toLowerCase()) {
+    case '':
+      return undefined;
+    case 'memory':
+      return new MemoryCacheStore(options);
+    case 'file':
+      return new FileCacheStore(env.TRANSLATION_CACHE_FILE || './data/translation-cache.json', options);
+    case 'redis':
+      return new RedisCacheStore(env.TRANSLATION_CACHE_REDIS_URL || 'redis://localhost:6379', options);
+    default:
+      throw new Error(`Unknown TRANSLATION_CACHE_STORE "${env.TRANSLATION_CACHE_STORE}" (expected memory, file or redis)`);
+  }
+}
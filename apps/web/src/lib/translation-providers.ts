@@ -0,0 +1,322 @@
+import { replaceTerms, type GlossaryPlan } from './glossary';
+
+/**
+ * Translation backends
+ * Each provider performs a single uncached translation; caching and request
+ * deduplication live in OptimizedTranslationService on top of them.
+ */
+
+export interface TranslationResult {
+  text: string;
+  /** Source language reported by the backend, when it detects one */
+  detectedLang?: string;
+}
+
+export interface BatchLimits {
+  /** Most texts accepted in one upstream request */
+  maxTexts: number;
+  /** Budget for the URL-encoded texts of one request, below the backend's body limit */
+  maxBytes: number;
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  readonly batchLimits: BatchLimits;
+  /** False when required credentials are missing; the service then skips translation */
+  isConfigured(): boolean;
+  translate(text: string, targetLang: string, sourceLang?: string): Promise<TranslationResult>;
+  /** Translate several texts in one upstream call; results keep the input order */
+  translateBatch(texts: string[], targetLang: string, sourceLang?: string, glossary?: GlossaryPlan): Promise<TranslationResult[]>;
+  /** Whether translateBatch can apply `glossary` natively; otherwise the service protects terms itself */
+  supportsGlossary?(glossary: GlossaryPlan, sourceLang?: string): boolean;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+async function safeResponseText(response: Response): Promise<string> {
+  try {
+    return await response.text();
+  } catch {
+    return `HTTP ${response.status}`;
+  }
+}
+
+async function ensureOk(response: Response): Promise<void> {
+  if (!response.ok) {
+    const errorBody = await safeResponseText(response);
+    throw new Error(`Translation request failed: ${response.status} - ${errorBody}`);
+  }
+}
+
+interface DeepLTranslateResponse {
+  translations?: { text?: string; detected_source_language?: string }[];
+}
+
+interface DeepLGlossaryResponse {
+  glossary_id: string;
+}
+
+interface DeepLGlossary {
+  entries: string;
+  id: Promise<string>;
+}
+
+// DeepL caps glossaries per account; owners past this many give up their oldest
+const MAX_DEEPL_GLOSSARIES = 500;
+
+export class DeepLProvider implements TranslationProvider {
+  readonly name = 'deepl';
+  // DeepL accepts up to 50 texts and a 128 KiB body per request
+  readonly batchLimits: BatchLimits = { maxTexts: 50, maxBytes: 120 * 1024 };
+  private apiUrl: string;
+  /** Owner and language pair -> the glossary currently in use for them */
+  private glossaries = new Map<string, DeepLGlossary>();
+
+  constructor(private apiKey: string, apiUrl?: string) {
+    this.apiUrl = apiUrl || (
+      process.env.DEEPL_API_FREE === '1' || process.env.DEEPL_API_FREE === 'true'
+        ? 'https://api-free.deepl.com/v2/translate'
+        : 'https://api.deepl.com/v2/translate'
+    );
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async translate(text: string, targetLang: string, sourceLang?: string): Promise<TranslationResult> {
+    const [result] = await this.translateBatch([text], targetLang, sourceLang);
+    return result;
+  }
+
+  // Do-not-translate terms use XML ignore tags; term pairs need a DeepL glossary, which needs a source language
+  supportsGlossary(glossary: GlossaryPlan, sourceLang?: string): boolean {
+    return glossary.terms.length === 0 || Boolean(sourceLang);
+  }
+
+  async translateBatch(texts: string[], targetLang: string, sourceLang?: string, glossary?: GlossaryPlan): Promise<TranslationResult[]> {
+    const body = new URLSearchParams();
+    for (const text of texts) {
+      body.append('text', glossary ? markKeep(text.trim(), glossary.doNotTranslate) : text.trim());
+    }
+    body.append('target_lang', targetLang.toUpperCase());
+
+    if (sourceLang) {
+      body.append('source_lang', sourceLang.toUpperCase());
+    }
+
+    if (glossary) {
+      body.append('tag_handling', 'xml');
+      body.append('ignore_tags', 'keep');
+      if (glossary.terms.length > 0 && sourceLang) {
+        const glossaryId = await this.ensureGlossary(glossary, sourceLang, targetLang).catch(error => {
+          console.warn('[Translation] DeepL glossary unavailable, translating without it:', error);
+          return undefined;
+        });
+        if (glossaryId) body.append('glossary_id', glossaryId);
+      }
+    }
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `DeepL-Auth-Key ${this.apiKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: body.toString(),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    await ensureOk(response);
+    const data: DeepLTranslateResponse | null = await response.json();
+    const translations = data?.translations ?? [];
+    return texts.map((_, i) => ({
+      text: glossary ? unmarkKeep(translations[i]?.text ?? '') : (translations[i]?.text ?? ''),
+      detectedLang: translations[i]?.detected_source_language
+    }));
+  }
+
+  /**
+   * DeepL glossaries are immutable, so an owner's edited term set gets a new glossary and
+   * the one it replaces is deleted
+   */
+  private ensureGlossary({ terms, owner = '' }: GlossaryPlan, sourceLang: string, targetLang: string): Promise<string> {
+    const entries = terms.map(t => `${t.source.replace(/\s+/g, ' ')}\t${t.target.replace(/\s+/g, ' ')}`).join('\n');
+    const source = sourceLang.split('-')[0].toLowerCase();
+    const target = targetLang.split('-')[0].toLowerCase();
+    const key = `${owner}:${source}>${target}`;
+
+    const current = this.glossaries.get(key);
+    if (current?.entries === entries) return current.id;
+
+    const id = this.createGlossary(source, target, entries);
+    // Forget failures so the next request retries
+    id.catch(() => {
+      if (this.glossaries.get(key)?.id === id) this.glossaries.delete(key);
+    });
+    this.glossaries.delete(key);
+    this.glossaries.set(key, { entries, id });
+    if (current) this.deleteGlossary(current.id);
+    if (this.glossaries.size > MAX_DEEPL_GLOSSARIES) {
+      const [oldestKey, oldest] = this.glossaries.entries().next().value!;
+      this.glossaries.delete(oldestKey);
+      this.deleteGlossary(oldest.id);
+    }
+    return id;
+  }
+
+  private async createGlossary(sourceLang: string, targetLang: string, entries: string): Promise<string> {
+    const response = await fetch(this.glossaryUrl(), {
+      method: 'POST',
+      headers: {
+        'Authorization': `DeepL-Auth-Key ${this.apiKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        name: `supichat ${sourceLang}-${targetLang}`,
+        source_lang: sourceLang,
+        target_lang: targetLang,
+        entries,
+        entries_format: 'tsv'
+      }).toString(),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    await ensureOk(response);
+    const data: DeepLGlossaryResponse = await response.json();
+    return data.glossary_id;
+  }
+
+  // Best effort: a glossary that outlives us only costs quota
+  private deleteGlossary(id: Promise<string>): void {
+    id.then(glossaryId => fetch(this.glossaryUrl(glossaryId), {
+      method: 'DELETE',
+      headers: { 'Authorization': `DeepL-Auth-Key ${this.apiKey}` },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    }))
+      .then(ensureOk)
+      .catch(error => console.warn('[Translation] Could not delete DeepL glossary:', error));
+  }
+
+  private glossaryUrl(id?: string): string {
+    const base = this.apiUrl.replace(/\/translate$/, '/glossaries');
+    return id ? `${base}/${encodeURIComponent(id)}` : base;
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Wrap do-not-translate terms in <keep> so DeepL's XML handling passes them through
+function markKeep(text: string, doNotTranslate: string[]): string {
+  return replaceTerms(escapeXml(text), doNotTranslate.map(escapeXml), match => `<keep>${match}</keep>`);
+}
+
+function unmarkKeep(text: string): string {
+  return text.replace(/<\/?keep>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+interface LibreTranslateResponse {
+  translatedText?: string;
+  detectedLanguage?: { language?: string };
+}
+
+/** What an array `q` gets back: parallel arrays */
+interface LibreTranslateBatchResponse {
+  translatedText?: string[];
+  detectedLanguage?: { language?: string }[];
+}
+
+/**
+ * Self-hosted LibreTranslate (https://github.com/LibreTranslate/LibreTranslate).
+ * The API key is optional and only needed when the instance enforces one.
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  readonly name = 'libretranslate';
+  // Self-hosted instances have no fixed cap; stay well below common proxy body limits
+  readonly batchLimits: BatchLimits = { maxTexts: 50, maxBytes: 100 * 1024 };
+  private apiUrl: string;
+
+  constructor(baseUrl: string, private apiKey?: string) {
+    this.apiUrl = `${baseUrl.replace(/\/+$/, '')}/translate`;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async translate(text: string, targetLang: string, sourceLang?: string): Promise<TranslationResult> {
+    const data = await this.request<LibreTranslateResponse>(text.trim(), targetLang, sourceLang);
+    return { text: data?.translatedText ?? '', detectedLang: data?.detectedLanguage?.language ?? sourceLang };
+  }
+
+  async translateBatch(texts: string[], targetLang: string, sourceLang?: string): Promise<TranslationResult[]> {
+    // With an array `q`, translatedText and detectedLanguage come back as parallel arrays
+    const data = await this.request<LibreTranslateBatchResponse>(texts.map(text => text.trim()), targetLang, sourceLang);
+    const translated = data?.translatedText ?? [];
+    const detected = data?.detectedLanguage ?? [];
+    return texts.map((_, i) => ({ text: translated[i] ?? '', detectedLang: detected[i]?.language ?? sourceLang }));
+  }
+
+  private async request<T>(q: string | string[], targetLang: string, sourceLang?: string): Promise<T | null> {
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q,
+        source: sourceLang ? toLibreLang(sourceLang) : 'auto',
+        target: toLibreLang(targetLang),
+        format: 'text',
+        ...(this.apiKey && { api_key: this.apiKey })
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    await ensureOk(response);
+    return response.json();
+  }
+}
+
+// The app speaks DeepL codes (EN, PT-BR, ZH); LibreTranslate wants lower-case base codes
+function toLibreLang(lang: string): string {
+  return lang.split('-')[0].toLowerCase();
+}
+
+/**
+ * Deterministic offline provider for staging and CI: "hello" -> "[DE] hello".
+ * It cannot detect languages, so it only echoes an explicit source language.
+ */
+export class MockTranslationProvider implements TranslationProvider {
+  readonly name = 'mock';
+  readonly batchLimits: BatchLimits = { maxTexts: 1000, maxBytes: Number.MAX_SAFE_INTEGER };
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async translate(text: string, targetLang: string, sourceLang?: string): Promise<TranslationResult> {
+    return { text: `[${targetLang.toUpperCase()}] ${text.trim()}`, detectedLang: sourceLang };
+  }
+
+  async translateBatch(texts: string[], targetLang: string, sourceLang?: string): Promise<TranslationResult[]> {
+    return Promise.all(texts.map(text => this.translate(text, targetLang, sourceLang)));
+  }
+}
+
+/**
+ * Build the provider selected by TRANSLATION_PROVIDER (default: deepl).
+ */
+export function createTranslationProvider(env: NodeJS.ProcessEnv = process.env): TranslationProvider {
+  const name = (env.TRANSLATION_PROVIDER || 'deepl').toLowerCase();
+  switch (name) {
+    case 'deepl':
+      return new DeepLProvider(env.DEEPL_API_KEY || '', env.DEEPL_API_URL);
+    case 'libretranslate':
+      return new LibreTranslateProvider(env.LIBRETRANSLATE_URL || 'http://localhost:5000', env.LIBRETRANSLATE_API_KEY);
+    case 'mock':
+      return new MockTranslationProvider();
+    default:
+      throw new Error(`Unknown TRANSLATION_PROVIDER "${name}" (expected deepl, libretranslate or mock)`);
+  }
+}
@@ -1,10 +1,16 @@
 /**
  * Optimized translation service with LRU cache and request deduplication
  * Reduces API calls and improves response times for repeated translations
+ * The backend is a TranslationProvider (DeepL, LibreTranslate or mock); an optional
+ * shared TranslationCacheStore sits between the in-process cache and the provider
  */
 
+import { createTranslationProvider, DeepLProvider, type TranslationProvider, type TranslationResult } from './translation-providers';
+import { createTranslationCacheStore, type TranslationCacheStore } from './translation-cache';
+import { glossaryFingerprint, planGlossary, protectTerms, type Glossary, type GlossaryPlan } from './glossary';
+
 interface CacheEntry {
-  value: string;
+  value: TranslationResult;
   timestamp: number;
   accessCount: number;
 }
@@ -15,48 +21,95 @@ interface TranslationStats {
   deduplicatedRequests: number;
   totalRequests: number;
   cacheSize: number;
+  /** Misses in the in-process cache that the shared store answered */
+  sharedCacheHits: number;
   avgResponseTime: number;
 }
 
+export interface TranslationServiceOptions {
+  /** DeepL endpoint override when the provider is given as an API key */
+  apiUrl?: string;
+  cacheTtlMs?: number;
+  maxCacheSize?: number;
+  sharedCache?: TranslationCacheStore;
+}
+
 export class OptimizedTranslationService {
-  private apiKey: string;
-  private apiUrl: string;
+  private provider: TranslationProvider;
+  private sharedCache?: TranslationCacheStore;
   private cache = new Map<string, CacheEntry>();
-  private inFlight = new Map<string, Promise<string>>();
-  private maxCacheSize = 1000;
-  private cacheTtl = 300000; // 5 minutes
+  private inFlight = new Map<string, Promise<TranslationResult>>();
+  private maxCacheSize: number;
+  private cacheTtl: number;
   private stats: TranslationStats = {
     cacheHits: 0,
     cacheMisses: 0,
     deduplicatedRequests: 0,
     totalRequests: 0,
     cacheSize: 0,
+    sharedCacheHits: 0,
     avgResponseTime: 0
   };
 
-  constructor(apiKey: string, apiUrl?: string) {
-    this.apiKey = apiKey;
-    this.apiUrl = apiUrl || (
-      process.env.DEEPL_API_FREE === '1' || process.env.DEEPL_API_FREE === 'true'
-        ? 'https://api-free.deepl.com/v2/translate'
-        : 'https://api.deepl.com/v2/translate'
-    );
+  /**
+   * Accepts a provider, or a DeepL API key for backwards compatibility
+   */
+  constructor(provider: TranslationProvider | string, options: TranslationServiceOptions = {}) {
+    this.provider = typeof provider === 'string' ? new DeepLProvider(provider, options.apiUrl) : provider;
+    this.sharedCache = options.sharedCache;
+    this.maxCacheSize = options.maxCacheSize ?? 1000;
+    this.cacheTtl = options.cacheTtlMs ?? 300000; // 5 minutes
+  }
+
+  get cacheStoreName(): string | undefined {
+    return this.sharedCache?.name;
   }
 
-  async translate(text: string, targetLang: string, sourceLang?: string): Promise<string> {
+  /**
+   * Preload the in-process cache with the shared store's most recent entries
+   */
+  async warmUp(): Promise<number> {
+    if (!this.sharedCache) return 0;
+    try {
+      const entries = await this.sharedCache.recent(this.maxCacheSize);
+      // Oldest first so the newest entries end up most recently used
+      for (const [cacheKey, result] of entries.reverse()) {
+        this.cacheTranslation(cacheKey, result);
+      }
+      console.log(`[Translation] Warmed cache with ${entries.length} entries from ${this.sharedCache.name}`);
+      return entries.length;
+    } catch (error) {
+      console.warn('[Translation] Cache warm-up failed:', error);
+      return 0;
+    }
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  async translate(text: string, targetLang: string, sourceLang?: string, glossary?: Glossary): Promise<string> {
+    return (await this.translateWithDetection(text, targetLang, sourceLang, glossary)).text;
+  }
+
+  /**
+   * Translate and report the source language the provider detected
+   */
+  async translateWithDetection(text: string, targetLang: string, sourceLang?: string, glossary?: Glossary): Promise<TranslationResult> {
     const startTime = performance.now();
     this.stats.totalRequests++;
 
-    if (!this.apiKey) {
-      console.warn('[Translation] No API key provided, returning empty translation');
-      return '';
+    if (!this.provider.isConfigured()) {
+      console.warn(`[Translation] Provider ${this.provider.name} is not configured, returning empty translation`);
+      return { text: '' };
     }
 
     if (!text.trim()) {
-      return '';
+      return { text: '' };
     }
 
-    const cacheKey = this.getCacheKey(text, targetLang, sourceLang);
+    const plan = planGlossary(glossary, targetLang, sourceLang);
+    const cacheKey = this.getCacheKey(text, targetLang, sourceLang, plan && glossaryFingerprint(plan));
     
     // Check cache first
     const cached = this.getCachedTranslation(cacheKey);
@@ -78,7 +131,9 @@ export class OptimizedTranslationService {
     }
 
     // Make new request
-    const promise = this.makeRequest(text, targetLang, sourceLang);
+    const promise = this.fetchTranslation(cacheKey, () => plan
+      ? this.requestBatch([text], targetLang, sourceLang, plan).then(([result]) => result)
+      : this.provider.translate(text, targetLang, sourceLang));
     this.inFlight.set(cacheKey, promise);
 
     try {
@@ -98,15 +153,57 @@ export class OptimizedTranslationService {
     }
   }
 
-  private getCacheKey(text: string, targetLang: string, sourceLang?: string): string {
+  // Consult the shared store before the provider; without one the provider is called synchronously
+  private fetchTranslation(cacheKey: string, request: () => Promise<TranslationResult>): Promise<TranslationResult> {
+    if (!this.sharedCache) return request();
+    return this.readShared([cacheKey]).then(([shared]) => shared ?? request().then(result => {
+      this.writeShared(cacheKey, result);
+      return result;
+    }));
+  }
+
+  // Shared store failures degrade to misses so translation keeps working without it
+  private async readShared(cacheKeys: string[]): Promise<(TranslationResult | undefined)[]> {
+    if (!this.sharedCache || cacheKeys.length === 0) return cacheKeys.map(() => undefined);
+    try {
+      const results = await this.sharedCache.getMany(cacheKeys);
+      this.stats.sharedCacheHits += results.filter(Boolean).length;
+      return results;
+    } catch (error) {
+      console.warn('[Translation] Shared cache read failed:', error);
+      return cacheKeys.map(() => undefined);
+    }
+  }
+
+  private writeShared(cacheKey: string, result: TranslationResult): void {
+    this.sharedCache?.set(cacheKey, result).catch(error => {
+      console.warn('[Translation] Shared cache write failed:', error);
+    });
+  }
+
+  // The glossary fingerprint keeps entries made under an older glossary from being served
+  private getCacheKey(text: string, targetLang: string, sourceLang?: string, glossaryId?: string): string {
     const normalizedText = text.trim().toLowerCase();
     const key = sourceLang 
       ? `${normalizedText}:${sourceLang}:${targetLang}`
       : `${normalizedText}:${targetLang}`;
-    return key;
+    return glossaryId ? `${key}:g=${glossaryId}` : key;
   }
 
-  private getCachedTranslation(cacheKey: string): string | null {
+  // Hand the glossary to providers that support it; otherwise protect terms with placeholders
+  private async requestBatch(texts: string[], targetLang: string, sourceLang?: string, plan?: GlossaryPlan): Promise<TranslationResult[]> {
+    if (!plan) {
+      return this.provider.translateBatch(texts, targetLang, sourceLang);
+    }
+    if (this.provider.supportsGlossary?.(plan, sourceLang)) {
+      return this.provider.translateBatch(texts, targetLang, sourceLang, plan);
+    }
+    const protectedTexts = texts.map(text => protectTerms(text, plan));
+    const results = await this.provider.translateBatch(protectedTexts.map(p => p.text), targetLang, sourceLang);
+    return results.map((result, i) => ({ ...result, text: protectedTexts[i].restore(result.text) }));
+  }
+
+  private getCachedTranslation(cacheKey: string): TranslationResult | null {
     const cached = this.cache.get(cacheKey);
     if (!cached) return null;
 
@@ -122,7 +219,7 @@ export class OptimizedTranslationService {
     return cached.value;
   }
 
-  private cacheTranslation(cacheKey: string, translation: string): void {
+  private cacheTranslation(cacheKey: string, translation: TranslationResult): void {
     const now = Date.now();
     
     // Add to cache
@@ -157,44 +254,6 @@ export class OptimizedTranslationService {
     console.log(`[Translation] Evicted ${toRemove.length} cache entries, size: ${this.cache.size}`);
   }
 
-  private async makeRequest(text: string, targetLang: string, sourceLang?: string): Promise<string> {
-    const body = new URLSearchParams({ 
-      text: text.trim(), 
-      target_lang: targetLang.toUpperCase() 
-    });
-
-    if (sourceLang) {
-      body.append('source_lang', sourceLang.toUpperCase());
-    }
-
-    const response = await fetch(this.apiUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `DeepL-Auth-Key ${this.apiKey}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: body.toString(),
-      // Enable keep-alive for connection reuse
-      signal: AbortSignal.timeout(10000) // 10 second timeout
-    });
-
-    if (!response.ok) {
-      const errorBody = await this.safeResponseText(response);
-      throw new Error(`Translation request failed: ${response.status} - ${errorBody}`);
-    }
-
-    const data = await response.json();
-    return data?.translations?.[0]?.text ?? '';
-  }
-
-  private async safeResponseText(response: Response): Promise<string> {
-    try {
-      return await response.text();
-    } catch {
-      return `HTTP ${response.status}`;
-    }
-  }
-
   private updateStats(startTime: number): void {
     const responseTime = performance.now() - startTime;
     const total = this.stats.totalRequests;
@@ -207,7 +266,7 @@ export class OptimizedTranslationService {
 
   getCacheHitRatio(): number {
     const total = this.stats.cacheHits + this.stats.cacheMisses;
-    return total > 0 ? this.stats.cacheHits / total : 0;
+    return total > 0 ? (this.stats.cacheHits + this.stats.sharedCacheHits) / total : 0;
   }
 
   clearCache(): void {
@@ -218,14 +277,110 @@ export class OptimizedTranslationService {
   }
 
   // Batch translation for multiple texts
-  async translateBatch(texts: string[], targetLang: string, sourceLang?: string): Promise<string[]> {
-    const uniqueTexts = [...new Set(texts)];
-    const translations = await Promise.all(
-      uniqueTexts.map(text => this.translate(text, targetLang, sourceLang))
-    );
-    
-    const translationMap = new Map(uniqueTexts.map((text, i) => [text, translations[i]]));
-    return texts.map(text => translationMap.get(text) || '');
+  async translateBatch(texts: string[], targetLang: string, sourceLang?: string, glossary?: Glossary): Promise<string[]> {
+    const results = await this.translateBatchWithDetection(texts, targetLang, sourceLang, glossary);
+    return results.map(result => result.text);
+  }
+
+  /**
+   * Translate many texts with as few upstream calls as the provider's batch limits allow.
+   * Cached and in-flight items are reused; every fresh result is cached individually.
+   */
+  async translateBatchWithDetection(texts: string[], targetLang: string, sourceLang?: string, glossary?: Glossary): Promise<TranslationResult[]> {
+    const startTime = performance.now();
+    this.stats.totalRequests++;
+
+    if (!this.provider.isConfigured()) {
+      console.warn(`[Translation] Provider ${this.provider.name} is not configured, returning empty translations`);
+      return texts.map(() => ({ text: '' }));
+    }
+
+    const plan = planGlossary(glossary, targetLang, sourceLang);
+    const glossaryId = plan && glossaryFingerprint(plan);
+    const pending = new Map<string, Promise<TranslationResult>>();
+    const misses = new Map<string, string>();
+
+    for (const text of texts) {
+      if (!text.trim()) continue;
+      const cacheKey = this.getCacheKey(text, targetLang, sourceLang, glossaryId);
+      if (pending.has(cacheKey) || misses.has(cacheKey)) continue;
+
+      const cached = this.getCachedTranslation(cacheKey);
+      if (cached) {
+        this.stats.cacheHits++;
+        pending.set(cacheKey, Promise.resolve(cached));
+        continue;
+      }
+
+      this.stats.cacheMisses++;
+      const inFlightPromise = this.inFlight.get(cacheKey);
+      if (inFlightPromise) {
+        this.stats.deduplicatedRequests++;
+        pending.set(cacheKey, inFlightPromise);
+        continue;
+      }
+      misses.set(cacheKey, text);
+    }
+
+    // Shared hits resolve without an upstream call; the rest go out in provider-sized chunks
+    const missEntries = Array.from(misses);
+    const upstream = this.readShared(missEntries.map(([cacheKey]) => cacheKey)).then(shared => {
+      const requests = new Map<string, Promise<TranslationResult>>();
+      const remaining = missEntries.filter((_, i) => !shared[i]);
+      for (const chunk of this.chunkForProvider(remaining)) {
+        const request = this.requestBatch(chunk.map(([, text]) => text), targetLang, sourceLang, plan);
+        chunk.forEach(([cacheKey], i) => requests.set(cacheKey, request.then(results => {
+          const result = results[i] ?? { text: '' };
+          this.writeShared(cacheKey, result);
+          return result;
+        })));
+      }
+      return { shared, requests };
+    });
+
+    missEntries.forEach(([cacheKey], i) => {
+      const promise = upstream
+        .then(({ shared, requests }) => shared[i] ?? requests.get(cacheKey)!)
+        .then(result => {
+          this.cacheTranslation(cacheKey, result);
+          return result;
+        })
+        .finally(() => this.inFlight.delete(cacheKey));
+      this.inFlight.set(cacheKey, promise);
+      pending.set(cacheKey, promise);
+    });
+
+    try {
+      return await Promise.all(texts.map(text =>
+        text.trim() ? pending.get(this.getCacheKey(text, targetLang, sourceLang, glossaryId))! : { text: '' }
+      ));
+    } catch (error) {
+      console.error('[Translation] Batch request failed:', error);
+      throw error;
+    } finally {
+      this.updateStats(startTime);
+    }
+  }
+
+  // Split [cacheKey, text] pairs so no upstream call exceeds the provider's item or size limits
+  private chunkForProvider(entries: [string, string][]): [string, string][][] {
+    const { maxTexts, maxBytes } = this.provider.batchLimits;
+    const chunks: [string, string][][] = [];
+    let current: [string, string][] = [];
+    let bytes = 0;
+
+    for (const entry of entries) {
+      const size = encodeURIComponent(entry[1]).length;
+      if (current.length > 0 && (current.length >= maxTexts || bytes + size > maxBytes)) {
+        chunks.push(current);
+        current = [];
+        bytes = 0;
+      }
+      current.push(entry);
+      bytes += size;
+    }
+    if (current.length > 0) chunks.push(current);
+    return chunks;
   }
 }
 
@@ -234,8 +389,13 @@ let translationService: OptimizedTranslationService | null = null;
 
 export function getTranslationService(): OptimizedTranslationService {
   if (!translationService) {
-    const apiKey = process.env.DEEPL_API_KEY || '';
-    translationService = new OptimizedTranslationService(apiKey);
+    const ttlSeconds = Number.parseInt(process.env.TRANSLATION_CACHE_TTL_SECONDS || '', 10);
+    translationService = new OptimizedTranslationService(createTranslationProvider(), {
+      cacheTtlMs: ttlSeconds > 0 ? ttlSeconds * 1000 : undefined,
+      maxCacheSize: Number.parseInt(process.env.TRANSLATION_CACHE_MAX_ENTRIES || '', 10) || undefined,
+      sharedCache: createTranslationCacheStore()
+    });
+    void translationService.warmUp();
   }
   return translationService;
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+/**
+ * Short-lived TURN credentials (server only)
+ * Implements the TURN REST API scheme coturn supports with `use-auth-secret`:
+ * the username is the expiry as a unix timestamp plus a label, and the password
+ * is an HMAC-SHA1 of the username keyed with the shared secret. coturn verifies
+ * both without any per-user state, and refuses the credentials once expired.
+ */
+
+import { createHmac } from 'crypto';
+import type { IceServersResponse } from './ice-servers';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const MIN_TTL_SECONDS = 60;
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_STUN_URL = 'stun:stun.l.google.com:19302';
+
+export interface TurnCredentials {
+  username: string;
+  credential: string;
+  /** ms since epoch */
+  expiresAt: number;
+}
+
+export function createTurnCredentials(secret: string, ttlSeconds: number, label = 'supichat', now = Date.now()): TurnCredentials {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${label}`;
+  const credential = createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential, expiresAt: expiry * 1000 };
+}
+
+function splitUrls(value: string | undefined): string[] {
+  return (value || '').split(',').map(url => url.trim()).filter(Boolean);
+}
+
+function ttlFromEnv(value: string | undefined): number {
+  const ttl = Number.parseInt(value || '', 10);
+  if (!Number.isFinite(ttl)) return DEFAULT_TTL_SECONDS;
+  return Math.min(MAX_TTL_SECONDS, Math.max(MIN_TTL_SECONDS, ttl));
+}
+
+/**
+ * STUN from STUN_URLS (or the older NEXT_PUBLIC_STUN_1), plus TURN_URLS with fresh
+ * credentials when TURN_SECRET is set. Without a secret clients get STUN only.
+ */
+export function buildIceServers(env: NodeJS.ProcessEnv = process.env, now = Date.now()): IceServersResponse {
+  const stunUrls = splitUrls(env.STUN_URLS || env.NEXT_PUBLIC_STUN_1);
+  const iceServers: RTCIceServer[] = [{ urls: stunUrls.length ? stunUrls : DEFAULT_STUN_URL }];
+
+  const turnUrls = splitUrls(env.TURN_URLS);
+  const secret = env.TURN_SECRET;
+  if (!secret || turnUrls.length === 0) return { iceServers, expiresAt: null };
+
+  const { username, credential, expiresAt } = createTurnCredentials(secret, ttlFromEnv(env.TURN_CREDENTIAL_TTL), 'supichat', now);
+  iceServers.push({ urls: turnUrls, username, credential });
+  return { iceServers, expiresAt };
+}
@@ -0,0 +1,179 @@
+/**
+ * Our camera and microphone
+ * Opens the preferred devices for the lobby preview and the call, publishes the device
+ * lists, mic level and devices in use to the room store, and swaps a single track when
+ * the user picks another device or unplugs the one in use.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useMediaStore } from './stores/media-store';
+import { useRoomStore } from './stores/room-store';
+import { acquireTrack, deviceConstraint, isAudioOutputSelectable, resolveDeviceId, type MediaKind } from './media-devices';
+
+/** The track a device switch took out of the stream and the one it put in */
+export interface TrackSwap {
+  previous?: MediaStreamTrack;
+  track: MediaStreamTrack;
+}
+
+type MicMeter = { ctx: AudioContext; analyser: AnalyserNode; source?: MediaStreamAudioSourceNode };
+
+function listDevices(devs: MediaDeviceInfo[]) {
+  return {
+    mics: devs.filter(d => d.kind === 'audioinput'),
+    cams: devs.filter(d => d.kind === 'videoinput'),
+    // Only worth offering where the browser can route audio to them
+    speakers: isAudioOutputSelectable() ? devs.filter(d => d.kind === 'audiooutput') : []
+  };
+}
+
+export function useLocalStream() {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  // Set once we have a stream or know we are joining without one
+  const [ready, setReady] = useState(false);
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+  // Mic level meter; its source is swapped when the microphone changes
+  const meterRef = useRef<MicMeter | null>(null);
+
+  const meterMic = useCallback((track?: MediaStreamTrack) => {
+    const meter = meterRef.current;
+    if (!meter) return;
+    meter.source?.disconnect();
+    meter.source = track ? meter.ctx.createMediaStreamSource(new MediaStream([track])) : undefined;
+    meter.source?.connect(meter.analyser);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let frame = 0;
+    const { actions } = useRoomStore.getState();
+
+    (async () => {
+      try {
+        const isE2E = typeof location !== 'undefined' && new URLSearchParams(location.search).get('e2e') === '1';
+        if (isE2E) {
+          actions.setLocalMediaState({ micEnabled: true, camEnabled: true });
+          actions.setDevices({
+            mics: [{ deviceId: 'e2e-mic', kind: 'audioinput', label: 'E2E Mic' } as any],
+            cams: [{ deviceId: 'e2e-cam', kind: 'videoinput', label: 'E2E Cam' } as any],
+            speakers: [{ deviceId: 'e2e-spk', kind: 'audiooutput', label: 'E2E Speaker' } as any]
+          });
+          setReady(true);
+          return;
+        }
+        // Last call's devices if they are still plugged in, the defaults otherwise
+        const { selectedMicId, selectedCamId, selectedSpeakerId } = useMediaStore.getState().local;
+        const media = await navigator.mediaDevices.getUserMedia({ video: deviceConstraint(selectedCamId), audio: deviceConstraint(selectedMicId) });
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        setStream(media);
+        const mic = media.getAudioTracks()[0];
+        const cam = media.getVideoTracks()[0];
+
+        const devices = listDevices(await navigator.mediaDevices.enumerateDevices());
+        actions.setDevices(devices);
+        actions.setLocalMediaState({
+          micEnabled: Boolean(mic?.enabled ?? true),
+          camEnabled: Boolean(cam?.enabled ?? true),
+          selectedMicId: mic?.getSettings().deviceId,
+          selectedCamId: cam?.getSettings().deviceId,
+          selectedSpeakerId: resolveDeviceId(devices.speakers, selectedSpeakerId) ?? devices.speakers[0]?.deviceId
+        });
+
+        const ctx = new AudioContext();
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 256;
+        meterRef.current = { ctx, analyser };
+        meterMic(mic);
+        const buf = new Uint8Array(analyser.frequencyBinCount);
+        const tick = () => {
+          analyser.getByteFrequencyData(buf);
+          const avg = buf.reduce((a, b) => a + b, 0) / buf.length;
+          // Speech rarely averages above half scale; treat that as full
+          const level = Math.min(1, Math.round(avg / 2) / 100);
+          if (level !== useRoomStore.getState().media.local.micLevel) actions.setMicLevel(level);
+          frame = requestAnimationFrame(tick);
+        };
+        tick();
+
+        setReady(true);
+      } catch {
+        if (cancelled) return;
+        setPermissionError('Camera/Microphone permission denied. You can still join without devices.');
+        actions.setLocalMediaState({ micEnabled: false, camEnabled: false });
+        setReady(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      meterRef.current?.ctx.close().catch(() => {});
+      meterRef.current = null;
+    };
+  }, [meterMic]);
+
+  // Stop the camera light once we leave the page
+  useEffect(() => () => stream?.getTracks().forEach(track => track.stop()), [stream]);
+
+  /**
+   * Open `deviceId` and put its track in place of the current one of that kind.
+   * Resolves to the swap so connections can send the new track; null when nothing changed.
+   */
+  const swapTrack = useCallback(async (kind: MediaKind, deviceId: string): Promise<TrackSwap | null> => {
+    if (!stream) return null;
+    const previous = kind === 'audio' ? stream.getAudioTracks()[0] : stream.getVideoTracks()[0];
+    if (previous && previous.readyState === 'live' && previous.getSettings().deviceId === deviceId) return null;
+
+    const track = await acquireTrack(kind, deviceId);
+    // Muted stays muted on the new device
+    if (previous) {
+      track.enabled = previous.enabled;
+      stream.removeTrack(previous);
+      previous.stop();
+    }
+    stream.addTrack(track);
+
+    const { actions } = useRoomStore.getState();
+    if (kind === 'audio') {
+      actions.setLocalMediaState({ selectedMicId: deviceId });
+      meterMic(track);
+    } else {
+      actions.setLocalMediaState({ selectedCamId: deviceId });
+    }
+    return { previous, track };
+  }, [stream, meterMic]);
+
+  return { stream, ready, permissionError, swapTrack };
+}
+
+/**
+ * Follow devices coming and going: fall back when the one in use is unplugged,
+ * and go back to the preferred one when it is plugged in again
+ */
+export function useDeviceChanges(stream: MediaStream | null, switchDevice: (kind: MediaKind, deviceId: string) => Promise<void>) {
+  useEffect(() => {
+    const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+    if (!mediaDevices?.addEventListener || !stream) return;
+    const onDeviceChange = async () => {
+      const devices = listDevices(await mediaDevices.enumerateDevices());
+      const { actions, media: { local: current } } = useRoomStore.getState();
+      actions.setDevices(devices);
+
+      const preferred = useMediaStore.getState().local;
+      const mic = resolveDeviceId(devices.mics, preferred.selectedMicId, current.selectedMicId) ?? devices.mics[0]?.deviceId;
+      if (mic && mic !== current.selectedMicId) await switchDevice('audio', mic);
+      const cam = resolveDeviceId(devices.cams, preferred.selectedCamId, current.selectedCamId) ?? devices.cams[0]?.deviceId;
+      if (cam && cam !== current.selectedCamId) await switchDevice('video', cam);
+      actions.setLocalMediaState({
+        selectedSpeakerId: resolveDeviceId(devices.speakers, preferred.selectedSpeakerId, current.selectedSpeakerId) ?? devices.speakers[0]?.deviceId
+      });
+    };
+    mediaDevices.addEventListener('devicechange', onDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', onDeviceChange);
+  }, [stream, switchDevice]);
+}
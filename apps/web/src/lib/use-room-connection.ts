@@ -0,0 +1,707 @@
+/**
+ * Socket and media connections for one room
+ * Joins through the lobby, keeps a peer connection per participant (or one SFU session
+ * once the room is large), resumes our seat after a dropped socket, and mirrors what the
+ * server says about the room into the room store. Media streams stay in here; the store
+ * only holds what the UI renders from.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import {
+  MAX_CAPTION_LENGTH, PROTOCOL_MISMATCH, PROTOCOL_VERSION,
+  type ChatRecord, type ClientToServerEvents, type PeerInfo, type ProtocolHandshake, type ServerToClientEvents
+} from '@supichat/protocol';
+import { v4 as uuidv4 } from 'uuid';
+import type { Presentation } from '@/components/room/PresentationView';
+import { useActiveSpeaker } from './active-speaker';
+import { isSameLang } from './i18n';
+import { IceServerCache } from './ice-servers';
+import { captureScreen } from './screen-share';
+import { SfuSession } from './sfu-client';
+import { createSpeechToTextProvider, type SpeechSegment } from './speech-to-text';
+import { useCaptionsStore } from './stores/captions-store';
+import { useRoomStore, type ChatMessage, type Peer } from './stores/room-store';
+import { PeerSession, isPolite } from './webrtc';
+
+const SIGNALING_PATH = process.env.NEXT_PUBLIC_SIGNALING_PATH || '/supichat/socket.io';
+const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH || '/supichat';
+// Interim captions change with every recognised word; send at most this often
+const INTERIM_CAPTION_INTERVAL_MS = 300;
+// How often to check whether TURN credentials are due for a refresh
+const ICE_SERVERS_CHECK_INTERVAL_MS = 60 * 1000;
+// Give up on the socket coming back quietly after this long
+const RECONNECT_GRACE_MS = 15000;
+
+export const ROOM_ERROR_MESSAGES: Record<string, string> = {
+  ROOM_NOT_FOUND: 'This meeting does not exist. Check the link or start a new meeting.',
+  ROOM_EXPIRED: 'This meeting has expired. Start a new meeting to continue.',
+  ROOM_FULL: 'This meeting is full. Try again when someone leaves.',
+  ROOM_LOCKED: 'The host has locked this meeting.',
+  ALREADY_JOINED: 'You are already in a meeting in this window.',
+};
+
+type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// What we last asked to join with, replayed when the socket comes back; once admitted
+// it carries our participant id and resume token so the server gives us our seat back
+type JoinRequest = {
+  roomId: string; name: string; lang: string; hostKey?: string; participantId?: string; resumeToken?: string;
+};
+
+export type ModerationAction = 'mute' | 'stop-video' | 'kick';
+
+function toStorePeer({ id, name, lang, micEnabled, camEnabled }: PeerInfo): Peer {
+  return { id, name, lang, micEnabled, camEnabled };
+}
+
+function localMediaState(stream: MediaStream | null) {
+  return {
+    micEnabled: Boolean(stream?.getAudioTracks()[0]?.enabled),
+    camEnabled: Boolean(stream?.getVideoTracks()[0]?.enabled)
+  };
+}
+
+function showNotice(message: string) {
+  useRoomStore.getState().actions.setNotice(message);
+}
+
+// The sender's declared language is unreliable, so always ask and let the detected
+// source language decide whether a translation is worth showing
+async function translateTexts(roomId: string, texts: string[], myLang: string): Promise<{ translated: string; detectedLang?: string }[]> {
+  if (texts.length === 0) return [];
+  try {
+    const r = await fetch(`${BASE_PATH}/api/translate/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ texts, targetLang: myLang, roomId })
+    });
+    if (!r.ok) throw new Error(`HTTP ${r.status}`);
+    const j: { translations: { translated?: string; detectedLang?: string }[] } = await r.json();
+    return texts.map((_, i) => {
+      const { translated, detectedLang } = j.translations[i] ?? {};
+      return { translated: isSameLang(detectedLang, myLang) ? '' : (translated || ''), detectedLang };
+    });
+  } catch {
+    return texts.map(() => ({ translated: '' }));
+  }
+}
+
+async function toChatMessages(roomId: string, history: ChatRecord[]): Promise<ChatMessage[]> {
+  const { connection: { selfId }, ui: { user } } = useRoomStore.getState();
+  const isOwn = (m: ChatRecord) => Boolean(selfId && m.from === selfId);
+  const others = history.filter(m => !isOwn(m));
+  const results = await translateTexts(roomId, others.map(m => m.msg), user.lang);
+  const byId = new Map(others.map((m, i) => [m.id, results[i]]));
+
+  return history.map((m): ChatMessage => {
+    const own = isOwn(m);
+    return {
+      id: m.id,
+      seq: m.seq,
+      timestamp: m.ts,
+      from: m.from,
+      status: own ? 'sent' : undefined,
+      name: own ? undefined : (m.name || 'Guest'),
+      original: m.msg,
+      translated: byId.get(m.id)?.translated ?? '',
+      detectedLang: byId.get(m.id)?.detectedLang
+    };
+  });
+}
+
+// Prefer same-origin so nginx can proxy /supichat/socket.io (more reliable on mobile);
+// an explicit origin is only honoured for local development
+function signalingOrigin(): string {
+  if (typeof location === 'undefined') return '';
+  const isLocal = location.hostname === 'localhost' || location.hostname === '127.0.0.1';
+  const explicit = process.env.NEXT_PUBLIC_SIGNALING_ORIGIN || '';
+  return isLocal && explicit ? explicit : location.origin;
+}
+
+export function useRoomConnection(roomId: string, { localStream, ready }: { localStream: MediaStream | null; ready: boolean }) {
+  const joined = useRoomStore(s => s.connection.joined);
+  const lang = useRoomStore(s => s.ui.user.lang);
+  const captionsOn = useCaptionsStore(s => s.enabled);
+
+  const socketRef = useRef<SignalingSocket | null>(null);
+  const sessionsRef = useRef<Map<string, PeerSession>>(new Map());
+  // Small rooms connect peer-to-peer; the server moves large ones to its SFU
+  const mediaModeRef = useRef<'mesh' | 'sfu'>('mesh');
+  const sfuRef = useRef<SfuSession | null>(null);
+  const joinRequestRef = useRef<JoinRequest | null>(null);
+  // Socket handlers outlive renders; read the current stream through a ref
+  const localStreamRef = useRef(localStream);
+
+  // Remote media by participant id. The refs let the SFU add tracks to a stream it
+  // already handed out; the state copies re-render the grid
+  const remoteStreamsRef = useRef<Map<string, MediaStream>>(new Map());
+  const remoteScreensRef = useRef<Map<string, MediaStream>>(new Map());
+  const [remoteStreams, setRemoteStreams] = useState<ReadonlyMap<string, MediaStream>>(new Map());
+  const [remoteScreens, setRemoteScreens] = useState<ReadonlyMap<string, MediaStream>>(new Map());
+  // Screen shares: ours, and the stream ids peers announced as theirs
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const screenStreamIdsRef = useRef<Map<string, string>>(new Map());
+
+  useActiveSpeaker(remoteStreams, joined);
+
+  // TURN credentials are short-lived; fetched before joining and refreshed while in the room
+  const iceServerCache = useMemo(() => new IceServerCache(`${BASE_PATH}/api/ice-servers`), []);
+
+  useEffect(() => {
+    localStreamRef.current = localStream;
+  }, [localStream]);
+
+  function setRemoteStream(peerId: string, stream?: MediaStream) {
+    if (stream) remoteStreamsRef.current.set(peerId, stream);
+    else remoteStreamsRef.current.delete(peerId);
+    setRemoteStreams(new Map(remoteStreamsRef.current));
+  }
+
+  function setRemoteScreen(peerId: string, stream?: MediaStream) {
+    if (stream) remoteScreensRef.current.set(peerId, stream);
+    else remoteScreensRef.current.delete(peerId);
+    setRemoteScreens(new Map(remoteScreensRef.current));
+  }
+
+  function clearRemoteMedia() {
+    remoteStreamsRef.current.clear();
+    remoteScreensRef.current.clear();
+    setRemoteStreams(new Map());
+    setRemoteScreens(new Map());
+  }
+
+  function closeConnections() {
+    sfuRef.current?.close();
+    sfuRef.current = null;
+    sessionsRef.current.forEach(session => session.close());
+    sessionsRef.current.clear();
+  }
+
+  function setScreenStreamId(peerId: string, streamId?: string | null) {
+    if (streamId) screenStreamIdsRef.current.set(peerId, streamId);
+    else screenStreamIdsRef.current.delete(peerId);
+  }
+
+  // Everything we hold for someone who is no longer in the room
+  function forgetPeer(peerId: string) {
+    sessionsRef.current.get(peerId)?.close();
+    sessionsRef.current.delete(peerId);
+    screenStreamIdsRef.current.delete(peerId);
+    if (remoteStreamsRef.current.has(peerId)) setRemoteStream(peerId);
+    if (remoteScreensRef.current.has(peerId)) setRemoteScreen(peerId);
+    useRoomStore.getState().actions.removePeer(peerId);
+    useCaptionsStore.getState().actions.clearCaption(peerId);
+  }
+
+  useEffect(() => {
+    if (!joined) return;
+    let servers = iceServerCache.current();
+    const timer = window.setInterval(async () => {
+      const fresh = await iceServerCache.get();
+      if (fresh === servers) return;
+      servers = fresh;
+      sessionsRef.current.forEach(session => session.setIceServers(fresh));
+    }, ICE_SERVERS_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [joined, iceServerCache]);
+
+  // Tell the room about viewer language changes so the server translates into the new one
+  useEffect(() => {
+    if (useRoomStore.getState().connection.joined) socketRef.current?.emit('lang', { roomId, lang });
+  }, [roomId, lang]);
+
+  // Caption our own speech while captions are on and the mic is live; others see it translated
+  useEffect(() => {
+    if (!joined || !captionsOn) return;
+    let provider;
+    try {
+      provider = createSpeechToTextProvider();
+    } catch (err: any) {
+      showNotice(err?.message || 'Captions are not available.');
+      return;
+    }
+    if (!provider?.isSupported()) {
+      showNotice('Live captions are not supported in this browser.');
+      return;
+    }
+
+    const { showCaption } = useCaptionsStore.getState().actions;
+    let lastInterimAt = 0;
+    const onSegment = (segment: SpeechSegment) => {
+      if (!useRoomStore.getState().media.local.micEnabled) return;
+      showCaption({ ...segment, peerId: 'local', ts: Date.now() });
+      const now = Date.now();
+      if (!segment.final && now - lastInterimAt < INTERIM_CAPTION_INTERVAL_MS) return;
+      lastInterimAt = segment.final ? 0 : now;
+      // Long monologues end up as one segment; the server takes no more than this
+      socketRef.current?.emit('caption', { roomId, ...segment, text: segment.text.slice(0, MAX_CAPTION_LENGTH) });
+    };
+
+    provider.start({ stream: localStream, lang, onSegment, onError: err => showNotice(err.message) });
+    return () => provider.stop();
+  }, [roomId, joined, captionsOn, lang, localStream]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const handshake: ProtocolHandshake = { protocolVersion: PROTOCOL_VERSION };
+    const socket: SignalingSocket = io(signalingOrigin(), { path: SIGNALING_PATH, auth: handshake });
+    socketRef.current = socket;
+    const { actions } = useRoomStore.getState();
+
+    let reconnectTimer: number | null = null;
+    const clearReconnectTimer = () => {
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    };
+    const markReconnecting = () => {
+      actions.setConnectionState({ status: 'reconnecting', socketConnected: false });
+      clearReconnectTimer();
+      reconnectTimer = window.setTimeout(() => actions.setConnectionState({ status: 'disconnected' }), RECONNECT_GRACE_MS);
+    };
+
+    actions.setConnectionState({ status: 'connecting' });
+    let connectedBefore = false;
+    socket.on('connect', () => {
+      actions.setConnectionState({ status: 'connected', socketConnected: true });
+      clearReconnectTimer();
+      // A new socket is a new participant to the server: drop the old media and join again
+      if (connectedBefore && joinRequestRef.current) rejoinRoom(socket, joinRequestRef.current);
+      connectedBefore = true;
+    });
+    socket.on('disconnect', reason => {
+      // The server ended the session on purpose (a kick); socket.io will not reconnect
+      if (reason === 'io server disconnect') {
+        clearReconnectTimer();
+        actions.setConnectionState({ status: 'ended', socketConnected: false });
+        return;
+      }
+      markReconnecting();
+    });
+    socket.on('connect_error', (err: Error & { data?: { code?: string } }) => {
+      // The server no longer speaks our protocol; retrying will not help, reloading will
+      if (err.data?.code === PROTOCOL_MISMATCH) {
+        clearReconnectTimer();
+        actions.setConnectionState({ status: 'disconnected', error: 'SupiChat has been updated. Reload the page to join.' });
+        return;
+      }
+      markReconnecting();
+    });
+
+    socket.on('protocol-error', ({ event, message }) => {
+      console.warn(`[signaling] ${event} was rejected: ${message}`);
+    });
+
+    socket.on('join-error', ({ code, message }) => {
+      joinRequestRef.current = null;
+      actions.setConnectionState({
+        joined: false,
+        lobbyStatus: 'idle',
+        error: ROOM_ERROR_MESSAGES[code] || message || 'Unable to join meeting'
+      });
+    });
+
+    socket.on('lobby-wait', () => {
+      actions.setConnectionState({ joined: false, lobbyStatus: 'waiting' });
+    });
+
+    socket.on('admitted', ({ hostId, locked, mediaMode, participantId, resumeToken }) => {
+      const request = joinRequestRef.current;
+      if (request) joinRequestRef.current = { ...request, participantId, resumeToken };
+      actions.setConnectionState({ selfId: participantId, hostId, locked, lobbyStatus: 'idle' });
+      const { user } = useRoomStore.getState().ui;
+      actions.joinRoom(roomId, request?.name ?? user.name, user.lang);
+      // Still presenting after a reconnect; announce it before the new connections carry it
+      if (screenStreamRef.current) socket.emit('screen-share', { roomId, streamId: screenStreamRef.current.id });
+      if (mediaMode === 'sfu') switchToSfu(socket);
+    });
+
+    socket.on('media-mode', ({ mode }) => {
+      if (mode === 'sfu') switchToSfu(socket);
+    });
+
+    // The server keeps our connection open, so Join works again on the same socket
+    socket.on('denied', () => {
+      joinRequestRef.current = null;
+      actions.joinDenied();
+    });
+
+    socket.on('host-changed', ({ hostId }) => {
+      const { selfId } = useRoomStore.getState().connection;
+      actions.setConnectionState(hostId === selfId ? { hostId } : { hostId, knocks: [] });
+    });
+
+    socket.on('knock', knock => actions.addKnock(knock));
+
+    socket.on('knock-cancelled', ({ id }) => actions.removeKnock(id));
+
+    // Host moderation: the server only forwards these from the current host
+    socket.on('moderate:mute', () => {
+      toggleTrack('audio', false);
+      showNotice('The host muted your microphone.');
+    });
+
+    socket.on('moderate:stop-video', () => {
+      toggleTrack('video', false);
+      showNotice('The host turned off your camera.');
+    });
+
+    socket.on('kicked', () => {
+      joinRequestRef.current = null;
+      stopScreenShare();
+      closeConnections();
+      clearRemoteMedia();
+      actions.removedByHost();
+    });
+
+    socket.on('room:locked', ({ locked }) => {
+      actions.setConnectionState({ locked });
+    });
+
+    // The roster is authoritative; entries we already know keep their local state
+    socket.on('peers', list => {
+      const { peerOrder } = useRoomStore.getState().peers;
+      peerOrder.filter(id => !list.some(it => it.id === id)).forEach(forgetPeer);
+      for (const it of list) {
+        actions.upsertPeer(toStorePeer(it));
+        setScreenStreamId(it.id, it.screenStreamId);
+      }
+      // Both sides open a session; whoever has tracks to send starts negotiating
+      if (mediaModeRef.current === 'sfu') return;
+      for (const it of list) getPeerSession(it.id, it.name);
+    });
+
+    socket.on('peer-joined', info => {
+      actions.upsertPeer(toStorePeer(info));
+      if (mediaModeRef.current === 'sfu') return;
+      getPeerSession(info.id, info.name);
+    });
+
+    // Same participant on a new connection: its old peer connection is dead, start a fresh one
+    socket.on('peer-reconnected', info => {
+      const { id, name, screenStreamId } = info;
+      actions.upsertPeer({ ...toStorePeer(info), connection: undefined });
+      if (remoteScreensRef.current.has(id)) setRemoteScreen(id);
+      setScreenStreamId(id, screenStreamId);
+      if (mediaModeRef.current === 'sfu') return;
+      sessionsRef.current.get(id)?.close();
+      sessionsRef.current.delete(id);
+      getPeerSession(id, name);
+    });
+
+    // Announced before the share's tracks arrive, so onTrack can tell them apart
+    socket.on('peer-screen', ({ id, streamId }) => {
+      setScreenStreamId(id, streamId);
+      if (!streamId && remoteScreensRef.current.has(id)) setRemoteScreen(id);
+    });
+
+    socket.on('signal', async ({ from, data }) => {
+      // Late mesh negotiation from before the switch to the SFU
+      if (mediaModeRef.current === 'sfu') return;
+      try {
+        await getPeerSession(from).handleSignal(data);
+      } catch (err) {
+        console.warn(`[WebRTC] Could not apply signal from ${from}:`, err);
+      }
+    });
+
+    socket.on('peer-left', ({ id }) => forgetPeer(id));
+
+    socket.on('peer-state', ({ id, micEnabled, camEnabled }) => {
+      actions.setPeerState(id, { micEnabled, camEnabled });
+    });
+
+    socket.on('peer-lang', ({ id, lang: peerLang }) => {
+      actions.setPeerState(id, { lang: peerLang });
+    });
+
+    // The server sends each receiver the original plus its translation into our language
+    socket.on('chat', ({ id, seq, ts, from, name, msg, translated, detectedLang }) => {
+      socket.emit('chat-delivered', { roomId, id });
+      actions.addMessage({ id, seq, timestamp: ts, from, name, original: msg, translated, detectedLang });
+    });
+
+    // Messages arrive untranslated; our language's version follows once it is ready
+    socket.on('chat-translation', ({ id, translated, detectedLang }) => {
+      actions.updateMessageTranslation(id, translated, detectedLang);
+    });
+
+    // Live captions from other speakers, already translated into our language when final
+    socket.on('caption', ({ id, from, name, text, translated, lang: captionLang, final, startedAt, ts }) => {
+      const { enabled, actions: captions } = useCaptionsStore.getState();
+      if (!enabled) return;
+      captions.showCaption({ id, peerId: from, name, text, translated, lang: captionLang, final, startedAt, ts });
+    });
+
+    // Delivery lifecycle of our own messages: pending -> sent -> delivered to N
+    socket.on('chat-ack', ({ clientId, id, seq, ts }) => {
+      actions.confirmMessage(clientId, { id, seq, timestamp: ts });
+    });
+
+    socket.on('chat-receipt', ({ id, deliveredTo }) => {
+      actions.setMessageStatus(id, 'delivered', deliveredTo);
+    });
+
+    socket.on('chat-error', ({ clientId }) => {
+      actions.setMessageStatus(clientId, 'failed');
+    });
+
+    // Recent history replayed by the server when we enter the room
+    socket.on('chat-history', async ({ messages, hasMore }) => {
+      actions.loadHistory(await toChatMessages(roomId, messages), hasMore);
+    });
+
+    // Leaving the page or moving to another room: nothing of this one may carry over
+    return () => {
+      clearReconnectTimer();
+      // Our own disconnect is not a dropped connection, so no handler should see it
+      socket.removeAllListeners();
+      stopScreenShare();
+      socket.disconnect();
+      socketRef.current = null;
+      joinRequestRef.current = null;
+      mediaModeRef.current = 'mesh';
+      closeConnections();
+      remoteStreamsRef.current.clear();
+      remoteScreensRef.current.clear();
+      screenStreamIdsRef.current.clear();
+      setRemoteStreams(new Map());
+      setRemoteScreens(new Map());
+      useCaptionsStore.getState().actions.clearCaptions();
+      actions.leaveRoom();
+    };
+  }, [roomId, ready]);
+
+  // One connection per remote participant, created by whichever event mentions them first
+  function getPeerSession(peerId: string, peerName?: string): PeerSession {
+    let session = sessionsRef.current.get(peerId);
+    if (!session) {
+      const { actions } = useRoomStore.getState();
+      session = new PeerSession({
+        peerId,
+        polite: isPolite(useRoomStore.getState().connection.selfId ?? '', peerId),
+        iceServers: iceServerCache.current(),
+        localStream: localStreamRef.current,
+        sendSignal: data => socketRef.current?.emit('signal', { roomId, targetId: peerId, data }),
+        onTrack: stream => {
+          if (screenStreamIdsRef.current.get(peerId) === stream.id) {
+            setRemoteScreen(peerId, stream);
+            return;
+          }
+          actions.upsertPeer({ id: peerId, ...(peerName && { name: peerName }) });
+          setRemoteStream(peerId, stream);
+        },
+        onConnectionStateChange: connection => actions.setPeerState(peerId, { connection })
+      });
+      sessionsRef.current.set(peerId, session);
+      const screen = screenStreamRef.current;
+      screen?.getTracks().forEach(track => session!.addTrack(track, screen));
+    }
+    return session;
+  }
+
+  // Drop the mesh and receive everyone through the server; the peers list stays as it is
+  function switchToSfu(socket: SignalingSocket) {
+    if (mediaModeRef.current === 'sfu') return;
+    mediaModeRef.current = 'sfu';
+    closeConnections();
+    clearRemoteMedia();
+
+    const session = new SfuSession(socket, roomId, {
+      onTrack: (peerId, track, source) => {
+        if (source === 'screen') {
+          const screen = remoteScreensRef.current.get(peerId) ?? new MediaStream();
+          screen.addTrack(track);
+          setRemoteScreen(peerId, screen);
+          return;
+        }
+        const stream = remoteStreamsRef.current.get(peerId) ?? new MediaStream();
+        stream.addTrack(track);
+        useRoomStore.getState().actions.upsertPeer({ id: peerId });
+        setRemoteStream(peerId, stream);
+      },
+      onTrackEnded: (peerId, track) => {
+        remoteStreamsRef.current.get(peerId)?.removeTrack(track);
+        remoteScreensRef.current.get(peerId)?.removeTrack(track);
+      }
+    }, iceServerCache.current());
+    sfuRef.current = session;
+    session.start(localStreamRef.current).then(async () => {
+      const screen = screenStreamRef.current;
+      for (const track of screen?.getTracks() ?? []) await session.publish(track, 'screen');
+    }).catch(err => {
+      console.warn('[SFU] Failed to connect:', err);
+      showNotice('Could not connect to the media server.');
+    });
+  }
+
+  // Our media connections died with the old socket. Within the grace period the server
+  // resumes our seat and tells everyone we reconnected; after it we join as someone new.
+  // Either way, start over from a mesh and let the roster tell us who is still there.
+  function rejoinRoom(socket: SignalingSocket, request: JoinRequest) {
+    const { actions, peers: { peerOrder } } = useRoomStore.getState();
+    closeConnections();
+    mediaModeRef.current = 'mesh';
+    remoteStreamsRef.current.clear();
+    setRemoteStreams(new Map());
+    peerOrder.forEach(id => actions.setPeerState(id, { connection: undefined }));
+    useCaptionsStore.getState().actions.clearCaptions();
+    actions.setConnectionState({ knocks: [], lobbyStatus: 'requesting' });
+    socket.emit('join', { ...request, lang: useRoomStore.getState().ui.user.lang, ...localMediaState(localStreamRef.current) });
+  }
+
+  async function join() {
+    const { ui: { user }, actions } = useRoomStore.getState();
+    if (!user.name || !user.lang) return;
+    let hostKey: string | undefined;
+    try { hostKey = localStorage.getItem(`supichat:host:${roomId}`) || undefined; } catch {}
+    actions.setConnectionState({ error: null, lobbyStatus: 'requesting' });
+    // Peer connections start right after admission, so have credentials ready first
+    await iceServerCache.get();
+    joinRequestRef.current = { roomId, name: user.name, lang: user.lang, hostKey };
+    socketRef.current?.emit('join', { ...joinRequestRef.current, ...localMediaState(localStreamRef.current) });
+  }
+
+  function cancelKnock() {
+    joinRequestRef.current = null;
+    // Dropping the connection removes us from the lobby; reconnect for another attempt
+    socketRef.current?.disconnect().connect();
+    useRoomStore.getState().actions.setConnectionState({ lobbyStatus: 'idle' });
+  }
+
+  function respondToKnock(targetId: string, admit: boolean) {
+    socketRef.current?.emit(admit ? 'admit' : 'deny', { roomId, targetId });
+    useRoomStore.getState().actions.removeKnock(targetId);
+  }
+
+  function leave() {
+    joinRequestRef.current = null;
+    stopScreenShare();
+    socketRef.current?.disconnect();
+    closeConnections();
+    useRoomStore.getState().actions.leaveRoom();
+  }
+
+  // Also runs from socket handlers (host moderation), so read the stream through its ref
+  function toggleTrack(kind: 'audio' | 'video', enabled?: boolean) {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+    const tracks = kind === 'audio' ? stream.getAudioTracks() : stream.getVideoTracks();
+    tracks.forEach(t => t.enabled = enabled ?? !t.enabled);
+    const state = localMediaState(stream);
+    useRoomStore.getState().actions.setLocalMediaState(state);
+    // Tell others what the tracks are now, not what this render saw
+    socketRef.current?.emit('state', { roomId, ...state });
+  }
+
+  // A new device's track replaces the old one on every connection, so nobody renegotiates
+  async function replaceTrack(previous: MediaStreamTrack | undefined, track: MediaStreamTrack) {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+    await Promise.all(Array.from(sessionsRef.current.values(), session => session.replaceTrack(previous, track, stream)));
+    const sfu = sfuRef.current;
+    if (sfu) await (previous ? sfu.replaceTrack(previous, track) : sfu.publish(track)).catch(err => console.warn('[SFU] Could not switch device:', err));
+  }
+
+  // Screen share goes out as extra tracks on every connection, announced first so peers present it
+  async function startScreenShare() {
+    if (screenStreamRef.current) return;
+    let stream: MediaStream;
+    try {
+      stream = await captureScreen();
+    } catch (err) {
+      // Cancelling the browser's picker is not an error worth telling anyone about
+      if ((err as Error)?.name !== 'NotAllowedError') showNotice('Could not share your screen.');
+      return;
+    }
+    screenStreamRef.current = stream;
+    setScreenStream(stream);
+    useRoomStore.getState().actions.setLocalMediaState({ screenEnabled: true });
+    // The browser's own "Stop sharing" button ends the video track
+    stream.getVideoTracks()[0]?.addEventListener('ended', stopScreenShare, { once: true });
+
+    socketRef.current?.emit('screen-share', { roomId, streamId: stream.id });
+    for (const track of stream.getTracks()) {
+      sessionsRef.current.forEach(session => session.addTrack(track, stream));
+      sfuRef.current?.publish(track, 'screen').catch(err => console.warn('[SFU] Could not share screen:', err));
+    }
+  }
+
+  // Stable so the memoised grid does not re-render for it
+  const stopScreenShare = useCallback(() => {
+    const stream = screenStreamRef.current;
+    if (!stream) return;
+    screenStreamRef.current = null;
+    setScreenStream(null);
+    useRoomStore.getState().actions.setLocalMediaState({ screenEnabled: false });
+    for (const track of stream.getTracks()) {
+      track.stop();
+      sessionsRef.current.forEach(session => session.removeTrack(track));
+      sfuRef.current?.unpublish(track).catch(() => {});
+    }
+    socketRef.current?.emit('screen-share', { roomId, streamId: null });
+  }, [roomId]);
+
+  function sendChat() {
+    const { chat: { chatInput }, ui: { user }, actions } = useRoomStore.getState();
+    if (!chatInput.trim()) return;
+    const clientId = uuidv4();
+    socketRef.current?.emit('chat', { roomId, msg: chatInput, lang: user.lang, clientId });
+    actions.addMessage({ id: clientId, original: chatInput, status: 'pending' });
+    actions.setChatInput('');
+  }
+
+  async function loadOlderMessages() {
+    const { messageIds, messagesById } = useRoomStore.getState().chat;
+    const oldest = messageIds.map(id => messagesById[id].seq).find(seq => seq != null);
+    if (oldest == null) return;
+    try {
+      const r = await fetch(`${BASE_PATH}/api/room/${encodeURIComponent(roomId)}/messages?before=${oldest}`);
+      if (!r.ok) return;
+      const page: { messages: ChatRecord[]; hasMore: boolean } = await r.json();
+      useRoomStore.getState().actions.prependHistory(await toChatMessages(roomId, page.messages), page.hasMore);
+    } catch {}
+  }
+
+  function moderate(action: ModerationAction, targetId: string) {
+    socketRef.current?.emit(`moderate:${action}`, { roomId, targetId });
+  }
+
+  function toggleRoomLock() {
+    const { locked } = useRoomStore.getState().connection;
+    socketRef.current?.emit('room:lock', { roomId, locked: !locked });
+  }
+
+  const getRemoteStream = useCallback((peerId: string) => remoteStreams.get(peerId) ?? null, [remoteStreams]);
+
+  // A remote share takes the stage over our own; the latest presenter wins
+  const peerOrder = useRoomStore(s => s.peers.peerOrder);
+  const presenterId = [...peerOrder].reverse().find(id => remoteScreens.has(id));
+  const presenterName = useRoomStore(s => (presenterId ? s.peers.peerMap[presenterId]?.name : undefined));
+  const presentation = useMemo((): Presentation | null => {
+    if (presenterId) return { peerId: presenterId, stream: remoteScreens.get(presenterId)!, name: presenterName };
+    return screenStream ? { peerId: 'local', stream: screenStream, isLocal: true } : null;
+  }, [presenterId, presenterName, remoteScreens, screenStream]);
+
+  // These only read refs and the store, so the first render's functions stay valid;
+  // keeping them stable lets the memoised panels and grid skip re-renders
+  const controls = useMemo(() => ({
+    join,
+    cancelKnock,
+    respondToKnock,
+    leave,
+    toggleTrack,
+    replaceTrack,
+    startScreenShare,
+    stopScreenShare,
+    sendChat,
+    loadOlderMessages,
+    moderate,
+    toggleRoomLock
+  }), [roomId]);
+
+  return { ...controls, getRemoteStream, presentation };
+}
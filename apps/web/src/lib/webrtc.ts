@@ -12,6 +12,254 @@ export async function addLocalTracks(pc: RTCPeerConnection, local: MediaStream)
   local.getTracks().forEach(t => pc.addTrack(t, local));
 }
 
+/** Payload of the `signal` socket event */
+export type SignalData = {
+  sdp?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+};
+
+/** Media path health as shown to the user; 'failed' means automatic recovery gave up */
+export type MediaConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+export interface IceRestartPolicy {
+  /** How long a 'disconnected' connection may recover by itself before restarting ICE */
+  graceMs: number;
+  /** Wait before retrying a restart that did not reconnect; doubles per attempt */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_ICE_RESTART_POLICY: IceRestartPolicy = {
+  graceMs: 2000,
+  baseDelayMs: 2000,
+  maxDelayMs: 16000,
+  maxAttempts: 5
+};
+
+export interface PeerSessionOptions {
+  peerId: string;
+  /** Exactly one side of each pair is polite; it yields when both offer at once */
+  polite: boolean;
+  iceServers: RTCIceServer[];
+  localStream?: MediaStream | null;
+  /** Deliver a description or candidate to the remote peer */
+  sendSignal: (data: SignalData) => void;
+  onTrack?: (stream: MediaStream, track: MediaStreamTrack) => void;
+  onConnectionStateChange?: (state: MediaConnectionState) => void;
+  iceRestart?: Partial<IceRestartPolicy>;
+  createPeerConnection?: (iceServers: RTCIceServer[]) => RTCPeerConnection;
+}
+
+/**
+ * Both sides of a pair must agree on who is polite; comparing ids does that without a round trip
+ */
+export function isPolite(selfId: string, peerId: string): boolean {
+  return selfId > peerId;
+}
+
+/**
+ * One peer connection using the "perfect negotiation" pattern: either side may
+ * (re)negotiate whenever its tracks change, and offer collisions are settled by
+ * the polite side rolling back while the impolite side ignores the incoming offer.
+ * https://w3c.github.io/webrtc-pc/#perfect-negotiation-example
+ *
+ * When the network changes under an established connection it restarts ICE,
+ * retrying with exponential backoff until the connection recovers or the policy
+ * gives up.
+ */
+export class PeerSession {
+  readonly peerId: string;
+  readonly pc: RTCPeerConnection;
+  private polite: boolean;
+  private sendSignal: (data: SignalData) => void;
+  private makingOffer = false;
+  private ignoreOffer = false;
+  private settingRemoteAnswer = false;
+  // Candidates can arrive before the description they belong to
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  // Signals are applied one at a time, in arrival order
+  private signalQueue: Promise<void> = Promise.resolve();
+  private state: MediaConnectionState = 'connecting';
+  private onConnectionStateChange?: (state: MediaConnectionState) => void;
+  private restartPolicy: IceRestartPolicy;
+  private restartAttempts = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor({
+    peerId, polite, iceServers, localStream, sendSignal, onTrack, onConnectionStateChange, iceRestart,
+    createPeerConnection: create = createPeerConnection
+  }: PeerSessionOptions) {
+    this.peerId = peerId;
+    this.polite = polite;
+    this.sendSignal = sendSignal;
+    this.onConnectionStateChange = onConnectionStateChange;
+    this.restartPolicy = { ...DEFAULT_ICE_RESTART_POLICY, ...iceRestart };
+    this.pc = create(iceServers);
+
+    this.pc.onnegotiationneeded = async () => {
+      try {
+        this.makingOffer = true;
+        await this.pc.setLocalDescription();
+        this.sendSignal({ sdp: this.pc.localDescription!.toJSON() });
+      } catch (error) {
+        console.warn(`[WebRTC] Negotiation with ${peerId} failed:`, error);
+      } finally {
+        this.makingOffer = false;
+      }
+    };
+
+    this.pc.onicecandidate = ({ candidate }) => {
+      if (candidate) this.sendSignal({ candidate: candidate.toJSON() });
+    };
+
+    this.pc.ontrack = ({ track, streams }) => {
+      onTrack?.(streams[0] ?? new MediaStream([track]), track);
+    };
+
+    // Browsers differ in which of the two reports a network change first
+    this.pc.oniceconnectionstatechange = () => this.checkConnection();
+    this.pc.onconnectionstatechange = () => this.checkConnection();
 
+    localStream?.getTracks().forEach(track => this.pc.addTrack(track, localStream));
+  }
 
+  handleSignal(data: SignalData): Promise<void> {
+    const applied = this.signalQueue.then(() => this.applySignal(data));
+    this.signalQueue = applied.catch(() => {});
+    return applied;
+  }
 
+  private async applySignal({ sdp, candidate }: SignalData): Promise<void> {
+    if (sdp) {
+      const readyForOffer = !this.makingOffer && (this.pc.signalingState === 'stable' || this.settingRemoteAnswer);
+      const collision = sdp.type === 'offer' && !readyForOffer;
+      this.ignoreOffer = !this.polite && collision;
+      if (this.ignoreOffer) return;
+
+      this.settingRemoteAnswer = sdp.type === 'answer';
+      try {
+        if (collision && this.pc.signalingState !== 'stable') {
+          // Explicit rollback for browsers without implicit rollback in setRemoteDescription
+          await this.pc.setLocalDescription({ type: 'rollback' });
+        }
+        await this.pc.setRemoteDescription(sdp);
+      } finally {
+        this.settingRemoteAnswer = false;
+      }
+      await this.flushCandidates();
+
+      if (sdp.type === 'offer') {
+        await this.pc.setLocalDescription();
+        this.sendSignal({ sdp: this.pc.localDescription!.toJSON() });
+      }
+    } else if (candidate) {
+      if (!this.pc.remoteDescription) {
+        this.pendingCandidates.push(candidate);
+        return;
+      }
+      await this.addCandidate(candidate);
+    }
+  }
+
+  get connectionState(): MediaConnectionState {
+    return this.state;
+  }
+
+  private setState(state: MediaConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.onConnectionStateChange?.(state);
+  }
+
+  private checkConnection(): void {
+    if (this.closed) return;
+    const { iceConnectionState: ice, connectionState: conn } = this.pc;
+    if (ice === 'failed' || conn === 'failed') {
+      this.scheduleRestart(0);
+    } else if (ice === 'disconnected' || conn === 'disconnected') {
+      // Often a brief blip that recovers on its own
+      this.scheduleRestart(this.restartPolicy.graceMs);
+    } else if (conn === 'connected' || ice === 'connected' || ice === 'completed') {
+      this.clearRestart();
+      this.restartAttempts = 0;
+      this.setState('connected');
+    }
+  }
+
+  private scheduleRestart(delayMs: number): void {
+    if (this.restartTimer) return;
+    if (this.state !== 'failed') this.setState('reconnecting');
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      const { baseDelayMs, maxDelayMs, maxAttempts } = this.restartPolicy;
+      if (this.restartAttempts >= maxAttempts) {
+        this.setState('failed');
+        return;
+      }
+      this.restartAttempts++;
+      // Fires negotiationneeded; the new offer carries fresh ICE credentials
+      this.pc.restartIce();
+      // Try again later unless the connection reports back as connected first
+      this.scheduleRestart(Math.min(maxDelayMs, baseDelayMs * 2 ** (this.restartAttempts - 1)));
+    }, delayMs);
+  }
+
+  private clearRestart(): void {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.restartTimer = null;
+  }
+
+  private async addCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    try {
+      await this.pc.addIceCandidate(candidate);
+    } catch (error) {
+      // Candidates for an offer we ignored are expected to fail
+      if (!this.ignoreOffer) console.warn(`[WebRTC] Bad ICE candidate from ${this.peerId}:`, error);
+    }
+  }
+
+  private async flushCandidates(): Promise<void> {
+    const candidates = this.pendingCandidates;
+    this.pendingCandidates = [];
+    for (const candidate of candidates) await this.addCandidate(candidate);
+  }
+
+  /** Start sending a track; renegotiates */
+  addTrack(track: MediaStreamTrack, stream: MediaStream): RTCRtpSender {
+    return this.pc.addTrack(track, stream);
+  }
+
+  /** Stop sending a track; renegotiates */
+  removeTrack(track: MediaStreamTrack): void {
+    const sender = this.pc.getSenders().find(s => s.track === track);
+    if (sender) this.pc.removeTrack(sender);
+  }
+
+  /**
+   * Send `track` in place of `previous` without renegotiating (e.g. another camera); adds it if
+   * `previous` was not being sent. Matched by track, since a screen share is a second video sender.
+   */
+  async replaceTrack(previous: MediaStreamTrack | undefined, track: MediaStreamTrack, stream: MediaStream): Promise<void> {
+    const sender = previous && this.pc.getSenders().find(s => s.track === previous);
+    if (sender) await sender.replaceTrack(track);
+    else this.addTrack(track, stream);
+  }
+
+  /** Swap in fresh TURN credentials; used by later ICE restarts and allocation refreshes */
+  setIceServers(iceServers: RTCIceServer[]): void {
+    this.pc.setConfiguration({ ...this.pc.getConfiguration(), iceServers });
+  }
+
+  close(): void {
+    this.closed = true;
+    this.clearRestart();
+    this.pc.onnegotiationneeded = null;
+    this.pc.onicecandidate = null;
+    this.pc.ontrack = null;
+    this.pc.oniceconnectionstatechange = null;
+    this.pc.onconnectionstatechange = null;
+    this.pc.close();
+  }
+}
@@ -51,12 +51,13 @@ describe('Optimized Implementation Comparison Tests', () => {
   it('should demonstrate translation service cache effectiveness', async () => {
     // Mock fetch for testing
     let callCount = 0;
-    const mockFetch = vi.fn().mockImplementation(() => {
+    const mockFetch = vi.fn().mockImplementation((_url, options) => {
       callCount++;
+      const batch = new URLSearchParams(options?.body).getAll('text');
       return Promise.resolve({
         ok: true,
         json: () => Promise.resolve({
-          translations: [{ text: `translated ${callCount}` }]
+          translations: batch.map(text => ({ text: `translated ${text}` }))
         })
       });
     });
@@ -139,12 +140,13 @@ describe('Optimized Implementation Comparison Tests', () => {
   it('should demonstrate batching effectiveness', async () => {
     const service = new OptimizedTranslationService('test-key');
     let callCount = 0;
-    const mockFetch = vi.fn().mockImplementation(() => {
+    const mockFetch = vi.fn().mockImplementation((_url, options) => {
       callCount++;
+      const batch = new URLSearchParams(options?.body).getAll('text');
       return Promise.resolve({
         ok: true,
         json: () => Promise.resolve({
-          translations: [{ text: `translated ${callCount}` }]
+          translations: batch.map(text => ({ text: `translated ${text}` }))
         })
       });
     });
@@ -168,7 +170,7 @@ describe('Optimized Implementation Comparison Tests', () => {
     console.log(`Results length: ${results.length}`);
 
     expect(results).toHaveLength(texts.length);
-    expect(callCount).toBe(new Set(texts).size); // Only unique texts should make API calls
+    expect(callCount).toBe(1); // Unique texts go upstream together in a single request
   });
 
   it('should benchmark concurrent request deduplication', async () => {
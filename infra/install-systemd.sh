@@ -56,6 +56,7 @@ npm ci
 
 log "Building application..."
 npm run build -w apps/web
+npm run build -w services/signaling
 
 # Create environment file
 ENV_FILE="$INSTALL_DIR/.env.production"
@@ -119,7 +120,7 @@ Type=simple
 User=$INSTALL_USER
 WorkingDirectory=$INSTALL_DIR/services/signaling
 EnvironmentFile=$ENV_FILE
-ExecStart=/usr/bin/node server.js
+ExecStart=/usr/bin/node dist/main.js
 Restart=always
 RestartSec=10
 StandardOutput=journal
@@ -166,6 +167,7 @@ cd "$(dirname "$0")"
 git pull
 npm ci
 npm run build -w apps/web
+npm run build -w services/signaling
 sudo systemctl restart supichat-signaling supichat-web
 sudo systemctl status supichat-signaling supichat-web --no-pager
 EOF
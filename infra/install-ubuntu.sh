@@ -59,6 +59,10 @@ npm install -w services/signaling
 echo "Creating env files if missing..."
 [ -f apps/web/.env.local ] || cp apps/web/env.local.example apps/web/.env.local
 [ -f .env ] || cp infra/env.local.example .env
+# Web and signaling share this secret; never run with the placeholder
+if grep -q '^INTERNAL_API_TOKEN=change-me$' .env; then
+  sed -i "s/^INTERNAL_API_TOKEN=change-me$/INTERNAL_API_TOKEN=$(openssl rand -hex 32)/" .env
+fi
 
 # Ensure DeepL keys placeholders exist and print setup instructions
 if ! grep -q '^DEEPL_API_KEY=' apps/web/.env.local 2>/dev/null; then
@@ -173,7 +177,8 @@ run_pm2() {
 }
 
 pushd services/signaling >/dev/null
-PORT="$SIGNALING_PORT" run_pm2 start server.js --name supichat-signaling --update-env
+npm run build
+PORT="$SIGNALING_PORT" run_pm2 start dist/main.js --name supichat-signaling --update-env
 popd >/dev/null
 
 pushd apps/web >/dev/null
@@ -269,8 +274,9 @@ fi
 popd >/dev/null
 
 pushd services/signaling >/dev/null
+npm run build
 if ! run_pm2 restart supichat-signaling; then
-  PORT="$SIGNALING_PORT" run_pm2 start server.js --name supichat-signaling --update-env
+  PORT="$SIGNALING_PORT" run_pm2 start dist/main.js --name supichat-signaling --update-env
 fi
 popd >/dev/null
 run_pm2 save
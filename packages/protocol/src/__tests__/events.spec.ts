@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isClientEvent, MAX_CANDIDATE_LENGTH, MAX_CAPTION_LENGTH, MAX_CHAT_LENGTH, MAX_LANG_LENGTH, MAX_NAME_LENGTH, MAX_SDP_LENGTH,
+  MAX_SECRET_LENGTH, parseClientEvent, serverEvents
+} from '../events';
+import { array, literal, nullable, number, object, optional, string } from '../schema';
+import { negotiateVersion, PROTOCOL_MISMATCH, PROTOCOL_VERSION } from '../version';
+
+describe('schemas', () => {
+  it('object keeps defined keys, drops unknown ones and omits missing optionals', () => {
+    const schema = object({ id: string(), count: optional(number()), tag: nullable(string()) });
+    expect(schema.parse({ id: 'a', tag: null, extra: 1 })).toEqual({ ok: true, value: { id: 'a', tag: null } });
+  });
+
+  it('reports the path of the first bad value', () => {
+    const schema = object({ items: array(object({ kind: literal('audio', 'video') })) });
+    expect(schema.parse({ items: [{ kind: 'audio' }, { kind: 'data' }] }, 'x')).toEqual({
+      ok: false,
+      error: 'x.items[1].kind must be one of "audio", "video"'
+    });
+  });
+
+  it('string and number enforce their bounds', () => {
+    expect(string({ min: 1 }).parse('').ok).toBe(false);
+    expect(string({ max: 3 }).parse('abcd').ok).toBe(false);
+    expect(number().parse(Number.NaN).ok).toBe(false);
+    expect(number({ integer: true }).parse(1.5).ok).toBe(false);
+    expect(number({ integer: true }).parse(2)).toEqual({ ok: true, value: 2 });
+  });
+});
+
+describe('parseClientEvent', () => {
+  it('accepts a well-formed join and strips what the protocol does not define', () => {
+    const result = parseClientEvent('join', { roomId: 'r1', name: 'Ann', lang: 'en', micEnabled: true, admin: true });
+    expect(result).toEqual({ ok: true, value: { roomId: 'r1', name: 'Ann', lang: 'en', micEnabled: true } });
+  });
+
+  it('rejects malformed payloads with a readable error', () => {
+    expect(parseClientEvent('chat', { roomId: 'r1', msg: 42, clientId: 'c1' })).toEqual({ ok: false, error: 'chat.msg must be a string' });
+    expect(parseClientEvent('signal', null)).toEqual({ ok: false, error: 'signal must be an object' });
+    expect(parseClientEvent('room:lock', { roomId: 'r1', locked: 'yes' }).ok).toBe(false);
+  });
+
+  it('caps chat messages, names and language codes', () => {
+    const chat = { roomId: 'r1', msg: 'x'.repeat(MAX_CHAT_LENGTH), lang: 'en', clientId: 'c1' };
+    expect(parseClientEvent('chat', chat).ok).toBe(true);
+    expect(parseClientEvent('chat', { ...chat, msg: 'x'.repeat(MAX_CHAT_LENGTH + 1) })).toEqual({
+      ok: false,
+      error: `chat.msg must be at most ${MAX_CHAT_LENGTH} characters`
+    });
+    expect(parseClientEvent('chat', { ...chat, lang: 'x'.repeat(MAX_LANG_LENGTH + 1) }).ok).toBe(false);
+
+    const join = { roomId: 'r1', name: 'n'.repeat(MAX_NAME_LENGTH), lang: 'en' };
+    expect(parseClientEvent('join', join).ok).toBe(true);
+    expect(parseClientEvent('join', { ...join, name: 'n'.repeat(MAX_NAME_LENGTH + 1) }).ok).toBe(false);
+    expect(parseClientEvent('join', { ...join, lang: 'x'.repeat(MAX_LANG_LENGTH + 1) }).ok).toBe(false);
+    expect(parseClientEvent('lang', { roomId: 'r1', lang: 'x'.repeat(MAX_LANG_LENGTH + 1) }).ok).toBe(false);
+  });
+
+  it('caps captions, secrets and signal data', () => {
+    const caption = { roomId: 'r1', id: 'cap-1', text: 'x'.repeat(MAX_CAPTION_LENGTH) };
+    expect(parseClientEvent('caption', caption).ok).toBe(true);
+    expect(parseClientEvent('caption', { ...caption, text: 'x'.repeat(MAX_CAPTION_LENGTH + 1) })).toEqual({
+      ok: false,
+      error: `caption.text must be at most ${MAX_CAPTION_LENGTH} characters`
+    });
+    expect(parseClientEvent('caption', { ...caption, id: 'x'.repeat(129) }).ok).toBe(false);
+
+    const join = { roomId: 'r1', name: 'Ann', lang: 'en' };
+    expect(parseClientEvent('join', { ...join, hostKey: 'k'.repeat(MAX_SECRET_LENGTH + 1) }).ok).toBe(false);
+    expect(parseClientEvent('join', { ...join, participantId: 'p1', resumeToken: 't'.repeat(MAX_SECRET_LENGTH + 1) }).ok).toBe(false);
+
+    const signal = (data: unknown) => parseClientEvent('signal', { roomId: 'r1', targetId: 'p2', data });
+    expect(signal({ sdp: { type: 'offer', sdp: 'v'.repeat(MAX_SDP_LENGTH) } }).ok).toBe(true);
+    expect(signal({ sdp: { type: 'offer', sdp: 'v'.repeat(MAX_SDP_LENGTH + 1) } }).ok).toBe(false);
+    expect(signal({ candidate: { candidate: 'c'.repeat(MAX_CANDIDATE_LENGTH + 1) } }).ok).toBe(false);
+  });
+
+  it('validates signal data as WebRTC descriptions and candidates', () => {
+    const offer = { roomId: 'r1', targetId: 'p2', data: { sdp: { type: 'offer', sdp: 'v=0' } } };
+    expect(parseClientEvent('signal', offer).ok).toBe(true);
+    const bogus = { roomId: 'r1', targetId: 'p2', data: { sdp: { type: 'hello' } } };
+    expect(parseClientEvent('signal', bogus).ok).toBe(false);
+  });
+
+  it('knows SFU requests and refuses unknown events', () => {
+    expect(isClientEvent('sfu:create-transport')).toBe(true);
+    expect(parseClientEvent('sfu:create-transport', { roomId: 'r1', direction: 'sideways' }).ok).toBe(false);
+    expect(parseClientEvent('become-host', { roomId: 'r1' })).toEqual({ ok: false, error: 'Unknown event "become-host"' });
+  });
+
+  it('has a schema for what the server sends too', () => {
+    const roster = [{ id: 'p1', name: 'Ann', micEnabled: false, screenStreamId: null }];
+    expect(serverEvents.peers.parse(roster)).toEqual({ ok: true, value: roster });
+  });
+});
+
+describe('negotiateVersion', () => {
+  it('agrees on the client version capped at ours', () => {
+    expect(negotiateVersion(PROTOCOL_VERSION)).toEqual({ ok: true, version: PROTOCOL_VERSION });
+    expect(negotiateVersion(5, { current: 3, minimum: 2 })).toEqual({ ok: true, version: 3 });
+  });
+
+  it('refuses clients that are too old or did not say', () => {
+    const old = negotiateVersion(1, { current: 3, minimum: 2 });
+    expect(old).toMatchObject({ ok: false, code: PROTOCOL_MISMATCH, supported: [2, 3] });
+    expect(negotiateVersion(undefined).ok).toBe(false);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Signaling events
+ * Every event the web client and the signaling service exchange, as a runtime schema
+ * per payload. The socket.io event maps and payload types are derived from these, so
+ * the types both sides compile against are exactly what the server validates.
+ */
+
+import {
+  array, boolean, literal, nullable, number, object, opaque, optional, string,
+  type Infer, type Opaque, type ParseResult, type Schema
+} from './schema.js';
+
+/** Longest client-supplied strings the server accepts */
+export const MAX_CHAT_LENGTH = 2000;
+export const MAX_NAME_LENGTH = 64;
+export const MAX_LANG_LENGTH = 16;
+export const MAX_CAPTION_LENGTH = 1000;
+/** Host keys and resume tokens */
+export const MAX_SECRET_LENGTH = 128;
+// Session descriptions grow with codecs and tracks; candidates are a single line
+export const MAX_SDP_LENGTH = 64 * 1024;
+export const MAX_CANDIDATE_LENGTH = 1024;
+
+// Room, participant, message and media ids are server-issued UUIDs or short client ids
+const id = string({ min: 1, max: 128 });
+const name = string({ max: MAX_NAME_LENGTH });
+const lang = string({ max: MAX_LANG_LENGTH });
+const timestamp = number();
+const mediaMode = literal('mesh', 'sfu');
+const trackSource = literal('camera', 'screen');
+const mediaKind = literal('audio', 'video');
+
+// WebRTC negotiation, shaped like RTCSessionDescriptionInit and RTCIceCandidateInit
+const signalData = object({
+  sdp: optional(object({
+    type: literal('offer', 'answer', 'pranswer', 'rollback'),
+    sdp: optional(string({ max: MAX_SDP_LENGTH }))
+  })),
+  candidate: optional(object({
+    candidate: optional(string({ max: MAX_CANDIDATE_LENGTH })),
+    sdpMid: optional(nullable(string())),
+    sdpMLineIndex: optional(nullable(number({ integer: true }))),
+    usernameFragment: optional(nullable(string()))
+  }))
+});
+
+// A participant as the roster and join/reconnect events describe them
+const peerInfo = object({
+  id,
+  name: optional(name),
+  lang: optional(lang),
+  micEnabled: optional(boolean()),
+  camEnabled: optional(boolean()),
+  screenStreamId: optional(nullable(string()))
+});
+
+// A chat message as the server stores it
+const chatRecordShape = {
+  id,
+  seq: number({ integer: true }),
+  ts: timestamp,
+  from: optional(string()),
+  name: optional(name),
+  msg: string({ max: MAX_CHAT_LENGTH }),
+  lang: optional(lang)
+};
+const chatRecord = object(chatRecordShape);
+
+const remoteProducer = object({
+  producerId: id,
+  peerId: id,
+  kind: mediaKind,
+  source: optional(trackSource)
+});
+
+const inRoom = { roomId: id };
+const targetingPeer = object({ ...inRoom, targetId: id });
+const fromHost = object({ ...inRoom, by: id });
+const roomError = object({ ...inRoom, code: string(), message: string() });
+
+/** Fire-and-forget events from the client */
+export const clientEvents = {
+  join: object({
+    ...inRoom,
+    name: string({ min: 1, max: MAX_NAME_LENGTH }),
+    lang: string({ min: 1, max: MAX_LANG_LENGTH }),
+    hostKey: optional(string({ max: MAX_SECRET_LENGTH })),
+    // Both present when resuming a seat after a dropped connection
+    participantId: optional(id),
+    resumeToken: optional(string({ max: MAX_SECRET_LENGTH })),
+    micEnabled: optional(boolean()),
+    camEnabled: optional(boolean())
+  }),
+  admit: targetingPeer,
+  deny: targetingPeer,
+  'moderate:mute': targetingPeer,
+  'moderate:stop-video': targetingPeer,
+  'moderate:kick': targetingPeer,
+  'room:lock': object({ ...inRoom, locked: boolean() }),
+  state: object({ ...inRoom, micEnabled: optional(boolean()), camEnabled: optional(boolean()) }),
+  'screen-share': object({ ...inRoom, streamId: nullable(string()) }),
+  signal: object({ ...inRoom, targetId: id, data: signalData }),
+  chat: object({ ...inRoom, msg: string({ min: 1, max: MAX_CHAT_LENGTH }), lang: optional(lang), clientId: id }),
+  caption: object({
+    ...inRoom,
+    id,
+    text: string({ max: MAX_CAPTION_LENGTH }),
+    final: optional(boolean()),
+    lang: optional(lang),
+    startedAt: optional(timestamp)
+  }),
+  lang: object({ ...inRoom, lang: string({ min: 1, max: MAX_LANG_LENGTH }) }),
+  'chat-delivered': object({ ...inRoom, id })
+};
+
+/** SFU negotiation: request/response over socket.io acks */
+export const sfuRequests = {
+  'sfu:capabilities': object(inRoom),
+  'sfu:create-transport': object({ ...inRoom, direction: literal('send', 'recv') }),
+  'sfu:connect-transport': object({ ...inRoom, transportId: id, dtlsParameters: opaque() }),
+  'sfu:produce': object({
+    ...inRoom,
+    transportId: id,
+    kind: mediaKind,
+    rtpParameters: opaque(),
+    appData: optional(object({ source: optional(trackSource) }))
+  }),
+  'sfu:close-producer': object({ ...inRoom, producerId: id }),
+  'sfu:producers': object(inRoom),
+  'sfu:consume': object({ ...inRoom, transportId: id, producerId: id, rtpCapabilities: opaque() }),
+  'sfu:resume-consumer': object({ ...inRoom, consumerId: id })
+};
+
+/** Everything the server sends */
+export const serverEvents = {
+  'join-error': roomError,
+  'lobby-wait': object({ ...inRoom, participantId: id }),
+  admitted: object({
+    ...inRoom,
+    hostId: nullable(id),
+    locked: boolean(),
+    mediaMode,
+    participantId: id,
+    resumeToken: string(),
+    resumed: boolean()
+  }),
+  'media-mode': object({ ...inRoom, mode: mediaMode }),
+  denied: object(inRoom),
+  'host-changed': object({ ...inRoom, hostId: nullable(id) }),
+  knock: object({ id, name: optional(name), lang: optional(lang) }),
+  'knock-cancelled': object({ id }),
+  'moderate:mute': fromHost,
+  'moderate:stop-video': fromHost,
+  kicked: fromHost,
+  'room:locked': object({ ...inRoom, locked: boolean() }),
+  'room-error': roomError,
+  peers: array(peerInfo),
+  'peer-joined': peerInfo,
+  'peer-reconnected': peerInfo,
+  'peer-left': object({ id }),
+  'peer-state': object({ id, micEnabled: optional(boolean()), camEnabled: optional(boolean()) }),
+  'peer-screen': object({ id, streamId: nullable(string()) }),
+  'peer-lang': object({ id, lang }),
+  signal: object({ from: id, data: signalData }),
+  // The original plus its translation into the receiver's language
+  chat: object({
+    ...chatRecordShape,
+    detectedLang: optional(string()),
+    translated: string(),
+    translatedLang: string()
+  }),
+  // Follows `chat` for each receiver language once its translation is ready
+  'chat-translation': object({ ...inRoom, id, translated: string(), translatedLang: string(), detectedLang: optional(string()) }),
+  'chat-ack': object({ ...inRoom, clientId: id, id, seq: number({ integer: true }), ts: timestamp }),
+  'chat-error': object({ ...inRoom, clientId: id, message: string() }),
+  'chat-receipt': object({ ...inRoom, id, deliveredTo: number({ integer: true }) }),
+  'chat-history': object({ ...inRoom, messages: array(chatRecord), hasMore: boolean() }),
+  caption: object({
+    id: string({ min: 1 }),
+    from: id,
+    name: optional(string()),
+    text: string(),
+    lang: optional(string()),
+    final: boolean(),
+    startedAt: timestamp,
+    ts: timestamp,
+    // Only final captions are translated
+    translated: optional(string()),
+    translatedLang: optional(string())
+  }),
+  'sfu:new-producer': remoteProducer,
+  'sfu:consumer-closed': object({ consumerId: id, producerId: id }),
+  // A client event was rejected before any handler saw it
+  'protocol-error': object({ event: string(), message: string() })
+};
+
+export type SignalData = Infer<typeof signalData>;
+export type PeerInfo = Infer<typeof peerInfo>;
+export type ChatRecord = Infer<typeof chatRecord>;
+export type RemoteProducer = Infer<typeof remoteProducer>;
+export type MediaMode = Infer<typeof mediaMode>;
+export type TrackSource = Infer<typeof trackSource>;
+
+export type ClientEventName = keyof typeof clientEvents;
+export type SfuRequestName = keyof typeof sfuRequests;
+export type ServerEventName = keyof typeof serverEvents;
+
+export type ClientPayload<E extends ClientEventName | SfuRequestName> =
+  Infer<(typeof clientEvents & typeof sfuRequests)[E]>;
+export type ServerPayload<E extends ServerEventName> = Infer<(typeof serverEvents)[E]>;
+
+/** What each SFU request answers with when it succeeds */
+export interface SfuReplies {
+  'sfu:capabilities': { rtpCapabilities: Opaque };
+  'sfu:create-transport': { id: string; iceParameters: Opaque; iceCandidates: Opaque[]; dtlsParameters: Opaque };
+  'sfu:connect-transport': Record<string, never>;
+  'sfu:produce': { id: string };
+  'sfu:close-producer': Record<string, never>;
+  'sfu:producers': { producers: RemoteProducer[] };
+  'sfu:consume': { id: string; producerId: string; kind: Infer<typeof mediaKind>; rtpParameters: Opaque };
+  'sfu:resume-consumer': Record<string, never>;
+}
+
+export type SfuReply<E extends SfuRequestName> = SfuReplies[E] | { error: string };
+
+/** socket.io event map for what clients emit */
+export type ClientToServerEvents =
+  { [E in ClientEventName]: (payload: ClientPayload<E>) => void } &
+  { [E in SfuRequestName]: (payload: ClientPayload<E>, ack: (reply: SfuReply<E>) => void) => void };
+
+/** socket.io event map for what the server emits */
+export type ServerToClientEvents = { [E in ServerEventName]: (payload: ServerPayload<E>) => void };
+
+const clientSchemas: Record<string, Schema<unknown>> = { ...clientEvents, ...sfuRequests };
+
+export function isClientEvent(event: string): event is ClientEventName | SfuRequestName {
+  return Object.prototype.hasOwnProperty.call(clientSchemas, event);
+}
+
+/**
+ * Validate a payload a client sent. Unknown events and malformed payloads come back
+ * as errors worded for the `protocol-error` reply.
+ */
+export function parseClientEvent<E extends ClientEventName | SfuRequestName>(event: E, payload: unknown): ParseResult<ClientPayload<E>>;
+export function parseClientEvent(event: string, payload: unknown): ParseResult<unknown>;
+export function parseClientEvent(event: string, payload: unknown): ParseResult<unknown> {
+  if (!isClientEvent(event)) return { ok: false, error: `Unknown event "${event}"` };
+  return clientSchemas[event].parse(payload, event);
+}
@@ -0,0 +1,7 @@
+/**
+ * Signaling protocol shared by the web client and the signaling service
+ */
+
+export * from './schema.js';
+export * from './events.js';
+export * from './version.js';
@@ -0,0 +1,137 @@
+/**
+ * Runtime schemas
+ * Just enough validation for socket payloads. A schema checks an unknown value and
+ * hands it back typed; objects drop keys they do not define, so handlers only ever
+ * see what the protocol says an event carries.
+ */
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export interface Schema<T> {
+  /** `path` names the value in error messages, e.g. `join.roomId` */
+  parse(input: unknown, path?: string): ParseResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** A structured value passed through untouched, e.g. mediasoup parameters */
+export type Opaque = object;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+function ok<T>(value: T): ParseResult<T> {
+  return { ok: true, value };
+}
+
+function fail(path: string | undefined, expected: string): ParseResult<never> {
+  return { ok: false, error: `${path || 'payload'} must be ${expected}` };
+}
+
+function isPlainObject(input: unknown): input is Record<string, unknown> {
+  return typeof input === 'object' && input !== null && !Array.isArray(input);
+}
+
+export function string({ min = 0, max = Infinity }: { min?: number; max?: number } = {}): Schema<string> {
+  return {
+    parse(input, path) {
+      if (typeof input !== 'string') return fail(path, 'a string');
+      if (input.length < min) return fail(path, min === 1 ? 'a non-empty string' : `at least ${min} characters`);
+      if (input.length > max) return fail(path, `at most ${max} characters`);
+      return ok(input);
+    }
+  };
+}
+
+/** Finite numbers only; NaN and Infinity do not survive JSON anyway */
+export function number({ integer = false }: { integer?: boolean } = {}): Schema<number> {
+  return {
+    parse(input, path) {
+      if (typeof input !== 'number' || !Number.isFinite(input)) return fail(path, 'a number');
+      if (integer && !Number.isInteger(input)) return fail(path, 'an integer');
+      return ok(input);
+    }
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    parse(input, path) {
+      return typeof input === 'boolean' ? ok(input) : fail(path, 'a boolean');
+    }
+  };
+}
+
+export function literal<const T extends readonly (string | number | boolean)[]>(...values: T): Schema<T[number]> {
+  return {
+    parse(input, path) {
+      return values.includes(input as T[number])
+        ? ok(input as T[number])
+        : fail(path, `one of ${values.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(input, path) {
+      return input === undefined ? ok(undefined) : schema.parse(input, path);
+    }
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    parse(input, path) {
+      return input === null ? ok(null) : schema.parse(input, path);
+    }
+  };
+}
+
+export function array<T>(item: Schema<T>, { max = Infinity }: { max?: number } = {}): Schema<T[]> {
+  return {
+    parse(input, path) {
+      if (!Array.isArray(input)) return fail(path, 'an array');
+      if (input.length > max) return fail(path, `at most ${max} items`);
+      const value: T[] = [];
+      for (let i = 0; i < input.length; i++) {
+        const result = item.parse(input[i], `${path || 'payload'}[${i}]`);
+        if (!result.ok) return result;
+        value.push(result.value);
+      }
+      return ok(value);
+    }
+  };
+}
+
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    parse(input, path) {
+      if (!isPlainObject(input)) return fail(path, 'an object');
+      const value: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        const result = shape[key].parse(input[key], path ? `${path}.${key}` : key);
+        if (!result.ok) return result;
+        if (result.value !== undefined) value[key] = result.value;
+      }
+      return ok(value as ObjectOf<S>);
+    }
+  };
+}
+
+/** Any object, kept as it is; for payloads owned by another library */
+export function opaque(): Schema<Opaque> {
+  return {
+    parse(input, path) {
+      return isPlainObject(input) ? ok(input) : fail(path, 'an object');
+    }
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Protocol version
+ * Clients offer the version they speak in the socket.io handshake (`auth.protocolVersion`);
+ * the server accepts anything it still understands and refuses the connection otherwise,
+ * so an outdated tab gets told to reload instead of failing on payloads it cannot read.
+ * Bump PROTOCOL_VERSION when an event changes shape; raise MIN_PROTOCOL_VERSION once the
+ * server stops accepting the old shape.
+ */
+
+export const PROTOCOL_VERSION = 2;
+// Version 1 clients expect chat to arrive already translated
+export const MIN_PROTOCOL_VERSION = 2;
+
+/** `connect_error` data code for a refused version */
+export const PROTOCOL_MISMATCH = 'PROTOCOL_MISMATCH';
+
+/** What clients put in the socket.io `auth` option */
+export interface ProtocolHandshake {
+  protocolVersion: number;
+}
+
+export type Negotiation =
+  | { ok: true; version: number }
+  | { ok: false; code: typeof PROTOCOL_MISMATCH; message: string; supported: [number, number] };
+
+/**
+ * Agree on the version both sides speak: the client's, capped at ours, as long as it is
+ * not older than the oldest we still accept
+ */
+export function negotiateVersion(
+  offered: unknown,
+  { current = PROTOCOL_VERSION, minimum = MIN_PROTOCOL_VERSION }: { current?: number; minimum?: number } = {}
+): Negotiation {
+  if (typeof offered !== 'number' || !Number.isInteger(offered) || offered < minimum) {
+    return {
+      ok: false,
+      code: PROTOCOL_MISMATCH,
+      message: `Protocol version ${offered ?? 'missing'} is not supported (need ${minimum} to ${current})`,
+      supported: [minimum, current]
+    };
+  }
+  return { ok: true, version: Math.min(offered, current) };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMessageStore, MemoryMessageStore } from '../message-store';
+import { RoomRegistry } from '../rooms';
+import { createSignalingServer } from '../server';
+
+let dir: string | undefined;
+
+afterEach(() => {
+  vi.useRealTimers();
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+describe('message stores', () => {
+  it('forget drops a room log and starts the next one from seq 1', async () => {
+    const store = new MemoryMessageStore<{ msg: string }>();
+    await store.append('r1', { msg: 'a' });
+    await store.append('r2', { msg: 'b' });
+
+    await store.forget('r1');
+    expect(await store.all('r1')).toEqual([]);
+    expect(await store.all('r2')).toHaveLength(1);
+    expect((await store.append('r1', { msg: 'c' })).seq).toBe(1);
+  });
+
+  it('the file store removes the room file too', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'supichat-messages-'));
+    const store = new FileMessageStore<{ msg: string }>({ dir });
+    await store.append('r1', { msg: 'a' });
+    expect(existsSync(join(dir, 'r1.jsonl'))).toBe(true);
+
+    await store.forget('r1');
+    expect(existsSync(join(dir, 'r1.jsonl'))).toBe(false);
+    expect(await new FileMessageStore({ dir }).all('r1')).toEqual([]);
+  });
+
+  it('the room registry reports each expired room it prunes', () => {
+    const expired: string[] = [];
+    const rooms = new RoomRegistry({ onExpire: id => expired.push(id) });
+    const old = rooms.create({ ttlMinutes: 1 });
+    const fresh = rooms.create({ ttlMinutes: 120 });
+
+    rooms.pruneExpired(Date.now() + 2 * 60 * 1000);
+    expect(expired).toEqual([old.id]);
+    expect(rooms.get(fresh.id)).toBeDefined();
+  });
+
+  it('the server prunes expired rooms without waiting for another one to be created', async () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+    const translator = { translate: async (text: string) => ({ translated: text }) };
+    const server = createSignalingServer({ env: {}, translator });
+    const room = server.rooms.create({ ttlMinutes: 1 });
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    expect(server.rooms.get(room.id)).toBeUndefined();
+    await server.close();
+  });
+});
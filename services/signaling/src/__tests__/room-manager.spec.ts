@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RoomManager } from '../room-manager';
+import { RoomErrorCode, RoomRegistry } from '../rooms';
+
+let rooms: RoomRegistry;
+let manager: RoomManager;
+let roomId: string;
+let hostKey: string;
+
+function admitted(socketId: string, name: string) {
+  const outcome = manager.join(socketId, { roomId, name, lang: 'en', hostKey });
+  if (outcome.type === 'rejected') throw new Error(outcome.message);
+  manager.admit(socketId, roomId);
+  return outcome.participant;
+}
+
+beforeEach(() => {
+  rooms = new RoomRegistry();
+  manager = new RoomManager({ rooms, sfu: { enabled: true, threshold: 2 } });
+  ({ id: roomId, hostKey } = rooms.create({ maxParticipants: 3 }));
+});
+
+describe('RoomManager', () => {
+  it('rejects unknown rooms', () => {
+    expect(manager.join('s1', { roomId: 'nope', name: 'Ann', lang: 'en' })).toMatchObject({ type: 'rejected', code: RoomErrorCode.NOT_FOUND });
+  });
+
+  it('makes the first one in host and sends everyone after them to the lobby', () => {
+    const host = manager.join('s1', { roomId, name: 'Ann', lang: 'en' });
+    expect(host.type).toBe('host');
+    manager.admit('s1', roomId);
+
+    const guest = manager.join('s2', { roomId, name: 'Ben', lang: 'de' });
+    expect(guest).toMatchObject({ type: 'lobby', hostId: manager.state(roomId).hostId });
+    expect(manager.isHost('s1', roomId)).toBe(true);
+    expect(manager.isHost('s2', roomId)).toBe(false);
+  });
+
+  it('keeps the roster and moves the room to the SFU past the threshold', () => {
+    const ann = admitted('s1', 'Ann');
+    admitted('s2', 'Ben');
+    expect(manager.roster(roomId, ann.id).map(p => p.name)).toEqual(['Ben']);
+
+    manager.join('s3', { roomId, name: 'Cleo', lang: 'fr', hostKey });
+    expect(manager.admit('s3', roomId).switchedTo).toBe('sfu');
+    expect(manager.join('s4', { roomId, name: 'Dan', lang: 'en', hostKey })).toMatchObject({ code: RoomErrorCode.FULL });
+  });
+
+  it('refuses newcomers to a locked room unless they hold the host key', () => {
+    admitted('s1', 'Ann');
+    manager.setLocked(roomId, true);
+    expect(manager.join('s2', { roomId, name: 'Ben', lang: 'de' })).toMatchObject({ code: RoomErrorCode.LOCKED });
+    expect(manager.join('s3', { roomId, name: 'Cleo', lang: 'fr', hostKey }).type).toBe('host');
+  });
+
+  it('refuses a second join from a socket that already has a seat', () => {
+    const ann = admitted('s1', 'Ann');
+    const ben = admitted('s2', 'Ben');
+    const other = rooms.create({}).id;
+
+    // Into another room: no second participant, no ghost left behind
+    expect(manager.join('s2', { roomId: other, name: 'Ben', lang: 'de' })).toMatchObject({ code: RoomErrorCode.ALREADY_JOINED });
+    expect(manager.count(other)).toBe(0);
+    expect(manager.roster(roomId, ann.id)).toEqual([expect.objectContaining({ id: ben.id })]);
+
+    // Into the same room while it has a host: not sent back to the lobby
+    expect(manager.join('s2', { roomId, name: 'Ben', lang: 'de' })).toMatchObject({ code: RoomErrorCode.ALREADY_JOINED });
+    expect(manager.state(roomId).lobby.size).toBe(0);
+    expect(manager.memberOf('s2', roomId)).toBe(ben);
+  });
+
+  it('resumes an admitted seat from a new socket', () => {
+    const ann = admitted('s1', 'Ann');
+    manager.participants.detach(ann, () => {});
+    const outcome = manager.join('s2', { roomId, name: 'Ann', lang: 'en', participantId: ann.id, resumeToken: ann.resumeToken });
+    expect(outcome).toMatchObject({ type: 'resumed', participant: { id: ann.id, socketId: 's2' } });
+    manager.close();
+  });
+
+  it('hands the host role to whoever has been there longest, or lets the lobby in', () => {
+    const ann = admitted('s1', 'Ann');
+    manager.join('s2', { roomId, name: 'Ben', lang: 'de' });
+    const ben = manager.takeFromLobby(roomId, manager.participantOf('s2')!.id)!;
+    manager.admit('s2', roomId);
+    expect(manager.remove(ann)).toEqual({ newHostId: ben.id, closed: false });
+
+    const waiting = manager.join('s3', { roomId, name: 'Cleo', lang: 'fr' });
+    expect(manager.remove(ben)).toMatchObject({ newHostId: waiting.type === 'lobby' && waiting.participant.id, closed: false });
+  });
+
+  it('forgets lobby participants on disconnect and closes empty rooms', () => {
+    const ann = admitted('s1', 'Ann');
+    manager.join('s2', { roomId, name: 'Ben', lang: 'de' });
+    expect(manager.disconnect('s2')).toMatchObject({ type: 'not-admitted', lobby: { roomId, hostId: ann.id } });
+    expect(manager.state(roomId).lobby.size).toBe(0);
+
+    expect(manager.disconnect('s1')).toEqual({ type: 'admitted', participant: ann });
+    expect(manager.remove(ann)).toEqual({ closed: true });
+    expect(manager.count(roomId)).toBe(0);
+  });
+});
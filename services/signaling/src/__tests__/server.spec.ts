@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { io as connect, type Socket } from 'socket.io-client';
+import { PROTOCOL_MISMATCH, PROTOCOL_VERSION, type ClientToServerEvents, type ServerToClientEvents } from '@supichat/protocol';
+import { createSignalingServer, type SignalingServer } from '../server';
+import type { Translator } from '../translator';
+
+type Client = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Tags the text with the target language so tests can tell who got which version
+const translator: Translator = {
+  translate: async (text, targetLang) => ({ translated: `[${targetLang}] ${text}`, detectedLang: 'en' }),
+};
+
+// Long enough to reconnect within, short enough to wait out
+const GRACE_MS = 200;
+
+let server: SignalingServer;
+let url: string;
+let roomId: string;
+let hostKey: string;
+const clients: Client[] = [];
+
+function next<E extends keyof ServerToClientEvents>(client: Client, event: E): Promise<Parameters<ServerToClientEvents[E]>[0]> {
+  return new Promise(resolve => {
+    client.once(event, ((payload: Parameters<ServerToClientEvents[E]>[0]) => resolve(payload)) as never);
+  });
+}
+
+async function open(auth: Record<string, unknown> = { protocolVersion: PROTOCOL_VERSION }): Promise<Client> {
+  const client: Client = connect(url, { path: server.path, auth, transports: ['websocket'], reconnection: false, forceNew: true });
+  clients.push(client);
+  await new Promise<void>((resolve, reject) => {
+    client.once('connect', resolve);
+    client.once('connect_error', reject);
+  });
+  return client;
+}
+
+/** Lose the connection without saying goodbye, as a network drop would */
+function drop(client: Client): Promise<void> {
+  const dropped = new Promise<void>(resolve => client.once('disconnect', () => resolve()));
+  client.io.engine.close();
+  return dropped;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Join as host, or knock and have `host` let you in */
+async function join(name: string, lang: string, host?: Client) {
+  const client = await open();
+  const admitted = next(client, 'admitted');
+  const peers = next(client, 'peers');
+  if (host) {
+    const knock = next(host, 'knock');
+    client.emit('join', { roomId, name, lang });
+    const { id } = await knock;
+    host.emit('admit', { roomId, targetId: id });
+  } else {
+    client.emit('join', { roomId, name, lang, hostKey });
+  }
+  return { client, admitted: await admitted, peers: await peers };
+}
+
+beforeEach(async () => {
+  server = createSignalingServer({ env: { RESUME_GRACE_MS: String(GRACE_MS), INTERNAL_API_TOKEN: 'internal-secret' }, translator });
+  const port = await server.listen(0);
+  url = `http://localhost:${port}`;
+  ({ id: roomId, hostKey } = server.rooms.create({}));
+});
+
+afterEach(async () => {
+  clients.splice(0).forEach(client => client.disconnect());
+  await server.close();
+});
+
+describe('signaling server', () => {
+  it('refuses clients that do not speak the protocol', async () => {
+    const err = await open({}).catch(e => e);
+    expect(err.data).toMatchObject({ code: PROTOCOL_MISMATCH });
+  });
+
+  it('admits the host straight away and has later joiners knock', async () => {
+    const host = await join('Ann', 'en');
+    expect(host.admitted).toMatchObject({ roomId, hostId: host.admitted.participantId, resumed: false, mediaMode: 'mesh' });
+    expect(host.peers).toEqual([]);
+
+    const guest = await open();
+    const wait = next(guest, 'lobby-wait');
+    const knock = next(host.client, 'knock');
+    guest.emit('join', { roomId, name: 'Ben', lang: 'de' });
+    const { participantId } = await wait;
+    expect(await knock).toEqual({ id: participantId, name: 'Ben', lang: 'de' });
+  });
+
+  it('keeps a denied guest connected so they can knock again', async () => {
+    const host = await join('Ann', 'en');
+    const guest = await open();
+    const knock = next(host.client, 'knock');
+    const denied = next(guest, 'denied');
+    guest.emit('join', { roomId, name: 'Ben', lang: 'de' });
+    host.client.emit('deny', { roomId, targetId: (await knock).id });
+    expect(await denied).toEqual({ roomId });
+
+    const again = next(host.client, 'knock');
+    const wait = next(guest, 'lobby-wait');
+    guest.emit('join', { roomId, name: 'Ben', lang: 'de' });
+    const { participantId } = await wait;
+    expect(guest.connected).toBe(true);
+    expect(await again).toMatchObject({ id: participantId, name: 'Ben' });
+  });
+
+  it('sends the roster to whoever joins and announces them to the room', async () => {
+    const host = await join('Ann', 'en');
+    const joined = next(host.client, 'peer-joined');
+    const guest = await join('Ben', 'de', host.client);
+
+    expect(guest.admitted.hostId).toBe(host.admitted.participantId);
+    expect(guest.peers).toEqual([expect.objectContaining({ id: host.admitted.participantId, name: 'Ann', lang: 'en' })]);
+    expect(await joined).toMatchObject({ id: guest.admitted.participantId, name: 'Ben' });
+    expect(server.manager.count(roomId)).toBe(2);
+  });
+
+  it('relays signals to the target participant only', async () => {
+    const host = await join('Ann', 'en');
+    const guest = await join('Ben', 'de', host.client);
+    const signal = next(guest.client, 'signal');
+    const data = { sdp: { type: 'offer' as const, sdp: 'v=0' } };
+    host.client.emit('signal', { roomId, targetId: guest.admitted.participantId, data });
+    expect(await signal).toEqual({ from: host.admitted.participantId, data });
+  });
+
+  it('acks chat to the sender and fans it out in each receiver language', async () => {
+    const host = await join('Ann', 'en');
+    const guest = await join('Ben', 'de', host.client);
+    const ack = next(host.client, 'chat-ack');
+    const received = next(guest.client, 'chat');
+    const translation = next(guest.client, 'chat-translation');
+    host.client.emit('chat', { roomId, msg: 'hello', lang: 'en', clientId: 'c1' });
+
+    const { id, seq } = await ack;
+    expect(seq).toBe(1);
+    expect(await received).toMatchObject({
+      id, from: host.admitted.participantId, name: 'Ann', msg: 'hello', translated: '', translatedLang: 'de',
+    });
+    expect(await translation).toEqual({ roomId, id, translated: '[de] hello', translatedLang: 'de', detectedLang: 'en' });
+
+    const receipt = next(host.client, 'chat-receipt');
+    guest.client.emit('chat-delivered', { roomId, id });
+    expect(await receipt).toEqual({ roomId, id, deliveredTo: 1 });
+  });
+
+  it('delivers chat without waiting for translations and skips the sender language', async () => {
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    const calls: string[] = [];
+    await server.close();
+    server = createSignalingServer({
+      env: { RESUME_GRACE_MS: String(GRACE_MS), INTERNAL_API_TOKEN: 'internal-secret' },
+      translator: {
+        translate: async (text, targetLang) => {
+          calls.push(targetLang);
+          await held;
+          return { translated: `[${targetLang}] ${text}`, detectedLang: 'en' };
+        },
+      },
+    });
+    url = `http://localhost:${await server.listen(0)}`;
+    ({ id: roomId, hostKey } = server.rooms.create({}));
+
+    const host = await join('Ann', 'en');
+    const guest = await join('Ben', 'de', host.client);
+    const colleague = await join('Cleo', 'en', host.client);
+    const seen: string[] = [];
+    colleague.client.onAny(event => seen.push(event));
+    const received = next(guest.client, 'chat');
+    const untranslated = next(colleague.client, 'chat');
+    host.client.emit('chat', { roomId, msg: 'hello', lang: 'en', clientId: 'c1' });
+
+    // Out before the only translation, which is still held, comes back
+    expect(await received).toMatchObject({ msg: 'hello', translated: '' });
+    expect(calls).toEqual(['de']);
+    const translation = next(guest.client, 'chat-translation');
+    release();
+    expect(await translation).toMatchObject({ translated: '[de] hello' });
+    expect(await untranslated).toMatchObject({ msg: 'hello', translated: '', translatedLang: 'en' });
+    expect(seen).not.toContain('chat-translation');
+  });
+
+  it('broadcasts media state and keeps it for the roster', async () => {
+    const host = await join('Ann', 'en');
+    const guest = await join('Ben', 'de', host.client);
+    const state = next(guest.client, 'peer-state');
+    host.client.emit('state', { roomId, micEnabled: false, camEnabled: true });
+    expect(await state).toEqual({ id: host.admitted.participantId, micEnabled: false, camEnabled: true });
+
+    const late = await join('Cleo', 'fr', host.client);
+    expect(late.peers).toContainEqual(expect.objectContaining({ id: host.admitted.participantId, micEnabled: false, camEnabled: true }));
+  });
+
+  it('tells the room when someone leaves and hands the host role on', async () => {
+    const host = await join('Ann', 'en');
+    const guest = await join('Ben', 'de', host.client);
+    const left = next(guest.client, 'peer-left');
+    const hostChanged = next(guest.client, 'host-changed');
+    host.client.disconnect();
+
+    expect(await left).toEqual({ id: host.admitted.participantId });
+    expect(await hostChanged).toEqual({ roomId, hostId: guest.admitted.participantId });
+    expect(server.manager.count(roomId)).toBe(1);
+  });
+
+  it('gives a dropped participant their seat back when they resume within the grace period', async () => {
+    const host = await join('Ann', 'en');
+    const joined = next(host.client, 'peer-joined');
+    const guest = await join('Ben', 'de', host.client);
+    await joined;
+    const seen: string[] = [];
+    host.client.onAny(event => seen.push(event));
+    await drop(guest.client);
+
+    const { participantId, resumeToken } = guest.admitted;
+    const back = await open();
+    const admitted = next(back, 'admitted');
+    const reconnected = next(host.client, 'peer-reconnected');
+    back.emit('join', { roomId, name: 'Ben', lang: 'de', participantId, resumeToken });
+
+    expect(await admitted).toMatchObject({ participantId, resumed: true });
+    expect(await reconnected).toMatchObject({ id: participantId, name: 'Ben' });
+    // Past the grace period, the cancelled departure must not surface
+    await sleep(GRACE_MS * 1.5);
+    expect(seen).not.toContain('peer-left');
+    expect(seen).not.toContain('peer-joined');
+    expect(server.manager.count(roomId)).toBe(2);
+  });
+
+  it('refuses the resume token once the grace period is over', async () => {
+    const host = await join('Ann', 'en');
+    const guest = await join('Ben', 'de', host.client);
+    const left = next(host.client, 'peer-left');
+    await drop(guest.client);
+    expect(await left).toEqual({ id: guest.admitted.participantId });
+
+    const { participantId, resumeToken } = guest.admitted;
+    const back = await open();
+    const wait = next(back, 'lobby-wait');
+    const knock = next(host.client, 'knock');
+    back.emit('join', { roomId, name: 'Ben', lang: 'de', participantId, resumeToken });
+
+    // Back as a stranger: a new identity, knocking like anyone else
+    const stranger = await wait;
+    expect(stranger.participantId).not.toBe(participantId);
+    expect(await knock).toMatchObject({ id: stranger.participantId, name: 'Ben' });
+    expect(server.manager.count(roomId)).toBe(1);
+  });
+
+  it('disconnects a kicked participant for good and tells the room they left', async () => {
+    const host = await join('Ann', 'en');
+    const guest = await join('Ben', 'de', host.client);
+    const kicked = next(guest.client, 'kicked');
+    const dropped = new Promise(resolve => guest.client.once('disconnect', resolve));
+    const left = next(host.client, 'peer-left');
+    host.client.emit('moderate:kick', { roomId, targetId: guest.admitted.participantId });
+
+    expect(await kicked).toEqual({ roomId, by: host.admitted.participantId });
+    expect(await dropped).toBe('io server disconnect');
+    expect(await left).toEqual({ id: guest.admitted.participantId });
+    expect(server.manager.count(roomId)).toBe(1);
+  });
+
+  it('only serves the room API to callers with the internal token', async () => {
+    const anonymous = await fetch(`${url}/rooms`, { method: 'POST' });
+    expect(anonymous.status).toBe(401);
+    const history = await fetch(`${url}/rooms/${roomId}/messages`, { headers: { 'X-Internal-Token': 'guess' } });
+    expect(history.status).toBe(401);
+
+    const created = await fetch(`${url}/rooms`, { method: 'POST', headers: { 'X-Internal-Token': 'internal-secret' } });
+    expect(created.status).toBe(201);
+    expect((await fetch(`${url}/health`)).status).toBe(200);
+  });
+
+  it('answers malformed payloads with a protocol-error', async () => {
+    const client = await open();
+    const error = next(client, 'protocol-error');
+    client.emit('chat', { roomId, msg: 42, clientId: 'c1' } as never);
+    expect(await error).toEqual({ event: 'chat', message: 'chat.msg must be a string' });
+  });
+});
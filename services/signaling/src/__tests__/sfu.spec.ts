@@ -0,0 +1,25 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createSfu, mediaModeFor } from '../sfu';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('sfu settings', () => {
+  it('moves a room to the SFU past the threshold and never back', () => {
+    const sfu = { enabled: true, threshold: 2 };
+    expect(mediaModeFor('mesh', 2, sfu)).toBe('mesh');
+    expect(mediaModeFor('mesh', 3, sfu)).toBe('sfu');
+    expect(mediaModeFor('sfu', 1, sfu)).toBe('sfu');
+    expect(mediaModeFor('mesh', 10, { ...sfu, enabled: false })).toBe('mesh');
+  });
+
+  it('keeps every room peer-to-peer when mediasoup is not installed', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const settings = createSfu({ SFU_ENABLED: '1', SFU_THRESHOLD: '3' }, () => false);
+    expect(settings).toEqual({ enabled: false, threshold: 3, sfu: null });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('mediasoup is not installed'));
+
+    expect(createSfu({ SFU_ENABLED: '1' }).sfu).not.toBeNull();
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Error reporting helpers
+ */
+
+/** The message of a thrown Error, or whatever else was thrown, for logging */
+export function errorMessage(err: unknown): unknown {
+  return (err as Error | undefined)?.message || err;
+}
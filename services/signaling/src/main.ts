@@ -0,0 +1,5 @@
+import { createSignalingServer } from './server.js';
+
+const server = createSignalingServer();
+const port = await server.listen(process.env.PORT || 4001);
+console.log(`[signaling] listening on :${port} path ${server.path}`);
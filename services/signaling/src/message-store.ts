@@ -0,0 +1,162 @@
+/**
+ * Chat message log
+ * Ordered, per-room message history with pluggable storage. The in-memory
+ * backend is the default; the file backend appends one JSON line per message
+ * to <dir>/<roomId>.jsonl so history survives a restart.
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { appendFile, rm } from 'fs/promises';
+import { join } from 'path';
+
+const DEFAULT_MAX_PER_ROOM = 1000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/** A logged message or event with the id, seq and timestamp the store assigned */
+export type StoredRecord<T> = T & { id: string; roomId: string; seq: number; ts: number };
+
+export interface Page<T> {
+  messages: StoredRecord<T>[];
+  hasMore: boolean;
+}
+
+export interface MessageStore<T> {
+  append(roomId: string, message: T): Promise<StoredRecord<T>>;
+  list(roomId: string, options?: { before?: unknown; limit?: unknown }): Promise<Page<T>>;
+  all(roomId: string): Promise<StoredRecord<T>[]>;
+  /** Drop a room's whole log, once the room itself is gone */
+  forget(roomId: string): Promise<void>;
+}
+
+interface Log<T> {
+  nextSeq: number;
+  messages: StoredRecord<T>[];
+}
+
+function pageSize(limit: unknown): number {
+  const n = Number.parseInt(String(limit), 10);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_PAGE_SIZE;
+  return Math.min(MAX_PAGE_SIZE, n);
+}
+
+export class MemoryMessageStore<T extends object> implements MessageStore<T> {
+  protected logs = new Map<string, Log<T>>();
+  private maxPerRoom: number;
+
+  constructor({ maxPerRoom = DEFAULT_MAX_PER_ROOM }: { maxPerRoom?: number } = {}) {
+    this.maxPerRoom = maxPerRoom;
+  }
+
+  protected getLog(roomId: string): Log<T> {
+    let log = this.logs.get(roomId);
+    if (!log) {
+      log = { nextSeq: 1, messages: [] };
+      this.logs.set(roomId, log);
+    }
+    return log;
+  }
+
+  /**
+   * Append a message and return the stored record with its id, seq and ts.
+   */
+  async append(roomId: string, message: T): Promise<StoredRecord<T>> {
+    const log = this.getLog(roomId);
+    const record: StoredRecord<T> = { id: randomUUID(), roomId, seq: log.nextSeq++, ts: Date.now(), ...message };
+    this.push(log, record);
+    return record;
+  }
+
+  protected push(log: Log<T>, record: StoredRecord<T>): void {
+    log.messages.push(record);
+    if (log.messages.length > this.maxPerRoom) {
+      log.messages.splice(0, log.messages.length - this.maxPerRoom);
+    }
+  }
+
+  /**
+   * Page through history oldest-first. `before` is an exclusive seq cursor.
+   */
+  async list(roomId: string, { before, limit }: { before?: unknown; limit?: unknown } = {}): Promise<Page<T>> {
+    const { messages } = this.getLog(roomId);
+    const cursor = Number.parseInt(String(before), 10);
+    const end = Number.isFinite(cursor) ? messages.findIndex(m => m.seq >= cursor) : -1;
+    const upTo = end === -1 ? messages.length : end;
+    const start = Math.max(0, upTo - pageSize(limit));
+    return { messages: messages.slice(start, upTo), hasMore: start > 0 };
+  }
+
+  /**
+   * Every retained record for a room, oldest first.
+   */
+  async all(roomId: string): Promise<StoredRecord<T>[]> {
+    return [...this.getLog(roomId).messages];
+  }
+
+  async forget(roomId: string): Promise<void> {
+    this.logs.delete(roomId);
+  }
+}
+
+export class FileMessageStore<T extends object> extends MemoryMessageStore<T> {
+  private dir: string;
+
+  constructor({ dir, ...options }: { dir: string; maxPerRoom?: number }) {
+    super(options);
+    this.dir = dir;
+    mkdirSync(dir, { recursive: true });
+  }
+
+  private filePath(roomId: string): string {
+    // Room ids are UUIDs; strip anything else so ids can never escape the directory
+    return join(this.dir, `${String(roomId).replace(/[^a-zA-Z0-9_-]/g, '')}.jsonl`);
+  }
+
+  protected getLog(roomId: string): Log<T> {
+    const loaded = this.logs.get(roomId);
+    if (loaded) return loaded;
+    const log = super.getLog(roomId);
+    const file = this.filePath(roomId);
+    if (existsSync(file)) {
+      for (const line of readFileSync(file, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const record: StoredRecord<T> = JSON.parse(line);
+          this.push(log, record);
+          log.nextSeq = Math.max(log.nextSeq, record.seq + 1);
+        } catch {
+          // Skip a torn trailing line from an interrupted write
+        }
+      }
+    }
+    return log;
+  }
+
+  async append(roomId: string, message: T): Promise<StoredRecord<T>> {
+    const record = await super.append(roomId, message);
+    await appendFile(this.filePath(roomId), JSON.stringify(record) + '\n');
+    return record;
+  }
+
+  async forget(roomId: string): Promise<void> {
+    await super.forget(roomId);
+    await rm(this.filePath(roomId), { force: true });
+  }
+}
+
+export function createMessageStore<T extends object>(env: NodeJS.ProcessEnv = process.env): MessageStore<T> {
+  const maxPerRoom = Number.parseInt(env.MESSAGE_STORE_MAX_PER_ROOM ?? '', 10) || DEFAULT_MAX_PER_ROOM;
+  if (env.MESSAGE_STORE === 'file') {
+    return new FileMessageStore<T>({ dir: env.MESSAGE_STORE_DIR || './data/messages', maxPerRoom });
+  }
+  return new MemoryMessageStore<T>({ maxPerRoom });
+}
+
+/**
+ * Room events (joins, leaves, final captions) for transcripts. Same backend as
+ * chat but a separate log, so chat history replay and sequence numbers are unaffected.
+ */
+export function createEventStore<T extends object>(env: NodeJS.ProcessEnv = process.env): MessageStore<T> {
+  return createMessageStore<T>({ ...env, MESSAGE_STORE_DIR: join(env.MESSAGE_STORE_DIR || './data/messages', 'events') });
+}
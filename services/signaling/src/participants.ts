@@ -0,0 +1,115 @@
+/**
+ * Participant registry
+ * A participant outlives the socket it joined with. Joining issues a participant id
+ * (the identity everyone else sees) and a secret resume token; a client whose
+ * connection drops can present both within the grace period to take its place
+ * back, instead of leaving and joining again as a stranger.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { tokensMatch } from './secrets.js';
+
+const DEFAULT_GRACE_MS = 30 * 1000;
+
+export interface Participant {
+  /** The identity everyone else sees */
+  id: string;
+  roomId: string;
+  resumeToken: string;
+  /** Null while the connection is down and the seat is held for the grace period */
+  socketId: string | null;
+  name?: string;
+  lang?: string;
+  micEnabled?: boolean;
+  camEnabled?: boolean;
+  screenStreamId: string | null;
+  /** Set once admitted past the lobby; only admitted participants can resume */
+  admittedAt: number | null;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export class ParticipantRegistry {
+  private graceMs: number;
+  private participants = new Map<string, Participant>();
+
+  constructor({ graceMs = DEFAULT_GRACE_MS }: { graceMs?: number } = {}) {
+    this.graceMs = graceMs;
+  }
+
+  create(roomId: string, socketId: string, { name, lang }: { name?: string; lang?: string } = {}): Participant {
+    const participant: Participant = {
+      id: randomUUID(),
+      roomId,
+      resumeToken: randomBytes(24).toString('base64url'),
+      socketId,
+      name,
+      lang,
+      micEnabled: undefined,
+      camEnabled: undefined,
+      screenStreamId: null,
+      admittedAt: null,
+      graceTimer: null,
+    };
+    this.participants.set(participant.id, participant);
+    return participant;
+  }
+
+  get(id: string | null | undefined): Participant | undefined {
+    return id ? this.participants.get(id) : undefined;
+  }
+
+  /**
+   * The participant a resume request refers to, if it is still around and the token matches
+   */
+  resume(roomId: string, id: string, resumeToken: unknown): Participant | null {
+    const participant = this.get(id);
+    if (!participant || participant.roomId !== roomId || !participant.admittedAt) return null;
+    return tokensMatch(participant.resumeToken, resumeToken) ? participant : null;
+  }
+
+  attach(participant: Participant, socketId: string): void {
+    if (participant.graceTimer) clearTimeout(participant.graceTimer);
+    participant.graceTimer = null;
+    participant.socketId = socketId;
+  }
+
+  /**
+   * Keep the seat for the grace period; `onExpire` runs if nobody resumes it by then
+   */
+  detach(participant: Participant, onExpire: (participant: Participant) => void): void {
+    participant.socketId = null;
+    if (participant.graceTimer) clearTimeout(participant.graceTimer);
+    participant.graceTimer = setTimeout(() => {
+      participant.graceTimer = null;
+      onExpire(participant);
+    }, this.graceMs);
+  }
+
+  remove(id: string): void {
+    const participant = this.participants.get(id);
+    if (!participant) return;
+    if (participant.graceTimer) clearTimeout(participant.graceTimer);
+    this.participants.delete(id);
+  }
+
+  /** Forget everyone, e.g. when the server shuts down; no grace period runs out afterwards */
+  clear(): void {
+    for (const participant of this.participants.values()) {
+      if (participant.graceTimer) clearTimeout(participant.graceTimer);
+    }
+    this.participants.clear();
+  }
+
+  /**
+   * Admitted participants of a room, connected or within their grace period, longest-present first
+   */
+  inRoom(roomId: string): Participant[] {
+    return Array.from(this.participants.values())
+      .filter(p => p.roomId === roomId && p.admittedAt)
+      .sort((a, b) => a.admittedAt! - b.admittedAt!);
+  }
+}
+
+export function createParticipantRegistry(env: NodeJS.ProcessEnv = process.env): ParticipantRegistry {
+  return new ParticipantRegistry({ graceMs: Number.parseInt(env.RESUME_GRACE_MS ?? '', 10) || DEFAULT_GRACE_MS });
+}
@@ -0,0 +1,312 @@
+/**
+ * Room manager
+ * Who is in which room, independent of the transport: per-room state (host, lock, media
+ * mode, lobby), the roster, and which participant each socket speaks for. Every decision
+ * about joining, admitting and leaving is made here and returned as a plain outcome; the
+ * server turns outcomes into socket.io messages.
+ */
+
+import type { ClientPayload, MediaMode, PeerInfo } from '@supichat/protocol';
+import { ParticipantRegistry, type Participant } from './participants.js';
+import { RoomErrorCode, type RoomRegistry } from './rooms.js';
+import { mediaModeFor } from './sfu.js';
+
+export interface LobbyEntry {
+  name?: string;
+  lang?: string;
+}
+
+export interface RoomState {
+  hostId: string | null;
+  locked: boolean;
+  mediaMode: MediaMode;
+  /** Participant id -> who is waiting, in knock order */
+  lobby: Map<string, LobbyEntry>;
+}
+
+/** What the server knows about a connection beyond the transport itself */
+export interface SocketMeta {
+  participantId?: string;
+  /** The room the socket was admitted to */
+  roomId?: string;
+  /** The room whose lobby the socket is waiting in */
+  lobbyRoomId?: string;
+}
+
+export type JoinOutcome =
+  | { type: 'rejected'; code: RoomErrorCode; message: string }
+  /** Back within the grace period; `previousSocketId` is the connection it replaces */
+  | { type: 'resumed'; participant: Participant; previousSocketId: string | null }
+  /** Admitted straight away as the room's host */
+  | { type: 'host'; participant: Participant }
+  /** Waiting for the host, who should hear the knock */
+  | { type: 'lobby'; participant: Participant; hostId: string | null };
+
+export interface Admission {
+  participant: Participant;
+  state: RoomState;
+  /** Set when this admission moved the room to another media mode */
+  switchedTo?: MediaMode;
+}
+
+export interface Departure {
+  /** The participant who took over as host */
+  newHostId?: string;
+  /** Let in from the lobby because nobody was left to admit them; now the host */
+  promoted?: Participant;
+  /** Nobody is left in the room or waiting to get in */
+  closed: boolean;
+}
+
+export type Disconnection =
+  | { type: 'ignored' }
+  /** Left before being admitted; `lobby` says whose lobby they were waiting in */
+  | { type: 'not-admitted'; participant: Participant; lobby?: { roomId: string; hostId: string | null } }
+  | { type: 'admitted'; participant: Participant };
+
+export interface RoomManagerOptions {
+  rooms: RoomRegistry;
+  participants?: ParticipantRegistry;
+  sfu?: { enabled: boolean; threshold: number };
+}
+
+export class RoomManager {
+  readonly participants: ParticipantRegistry;
+  private rooms: RoomRegistry;
+  private sfu: { enabled: boolean; threshold: number };
+  private states = new Map<string, RoomState>();
+  private sockets = new Map<string, SocketMeta>();
+
+  constructor({ rooms, participants = new ParticipantRegistry(), sfu = { enabled: false, threshold: Infinity } }: RoomManagerOptions) {
+    this.rooms = rooms;
+    this.participants = participants;
+    this.sfu = sfu;
+  }
+
+  state(roomId: string): RoomState {
+    let state = this.states.get(roomId);
+    if (!state) {
+      state = { hostId: null, locked: false, mediaMode: 'mesh', lobby: new Map() };
+      this.states.set(roomId, state);
+    }
+    return state;
+  }
+
+  socket(socketId: string): SocketMeta {
+    let meta = this.sockets.get(socketId);
+    if (!meta) {
+      meta = {};
+      this.sockets.set(socketId, meta);
+    }
+    return meta;
+  }
+
+  participantOf(socketId: string): Participant | undefined {
+    return this.participants.get(this.sockets.get(socketId)?.participantId);
+  }
+
+  /** The admitted participant a socket speaks for in `roomId` */
+  memberOf(socketId: string, roomId: string): Participant | undefined {
+    if (this.sockets.get(socketId)?.roomId !== roomId) return undefined;
+    const participant = this.participantOf(socketId);
+    return participant?.socketId === socketId ? participant : undefined;
+  }
+
+  /** A connected participant admitted to `roomId`, e.g. the target of a relay or host command */
+  connectedMember(roomId: string, participantId: string): Participant | undefined {
+    const participant = this.participants.get(participantId);
+    return participant?.roomId === roomId && participant.admittedAt && participant.socketId ? participant : undefined;
+  }
+
+  isHost(socketId: string, roomId: string): boolean {
+    const participantId = this.sockets.get(socketId)?.participantId;
+    return Boolean(participantId) && this.states.get(roomId)?.hostId === participantId;
+  }
+
+  // Participants within their grace period still hold their seat
+  count(roomId: string): number {
+    return this.participants.inRoom(roomId).length;
+  }
+
+  peerInfo(participant: Participant): PeerInfo {
+    const { id, name, lang, micEnabled, camEnabled, screenStreamId } = participant;
+    return { id, name, lang, micEnabled, camEnabled, screenStreamId };
+  }
+
+  /** Everyone admitted to the room but `exceptId`, including anyone within their grace period */
+  roster(roomId: string, exceptId?: string): PeerInfo[] {
+    return this.participants.inRoom(roomId)
+      .filter(p => p.id !== exceptId)
+      .map(p => this.peerInfo(p));
+  }
+
+  /** Connected sockets in the room other than `exceptId`, grouped by viewer language */
+  socketsByLang(roomId: string, exceptId: string | undefined, fallbackLang: string | undefined): Map<string | undefined, string[]> {
+    const groups = new Map<string | undefined, string[]>();
+    for (const p of this.participants.inRoom(roomId)) {
+      if (p.id === exceptId || !p.socketId) continue;
+      const lang = p.lang || fallbackLang;
+      if (!groups.has(lang)) groups.set(lang, []);
+      groups.get(lang)!.push(p.socketId);
+    }
+    return groups;
+  }
+
+  /**
+   * Decide what a join request gets: the seat held from before a dropped connection, the
+   * room as host, a place in the lobby, or a rejection
+   */
+  join(socketId: string, request: ClientPayload<'join'>): JoinOutcome {
+    const { roomId, name, lang, hostKey, participantId, resumeToken, micEnabled, camEnabled } = request;
+    const check = this.rooms.check(roomId);
+    if (!check.ok) return { type: 'rejected', code: check.code, message: check.message };
+
+    // One seat per connection: joining again would leave a ghost behind or send it back to the lobby
+    const seatedIn = this.sockets.get(socketId)?.roomId;
+    if (seatedIn && this.memberOf(socketId, seatedIn)) {
+      return { type: 'rejected', code: RoomErrorCode.ALREADY_JOINED, message: 'Already in a room on this connection' };
+    }
+
+    // Back within the grace period: take the old seat, skipping capacity, lock and lobby
+    const resumable = participantId && this.participants.resume(roomId, participantId, resumeToken);
+    if (resumable) {
+      const previousSocketId = resumable.socketId !== socketId ? resumable.socketId : null;
+      this.participants.attach(resumable, socketId);
+      resumable.name = name || resumable.name;
+      resumable.lang = lang || resumable.lang;
+      resumable.micEnabled = micEnabled ?? resumable.micEnabled;
+      resumable.camEnabled = camEnabled ?? resumable.camEnabled;
+      this.socket(socketId).participantId = resumable.id;
+      return { type: 'resumed', participant: resumable, previousSocketId };
+    }
+
+    if (this.count(roomId) >= check.room.maxParticipants) {
+      return { type: 'rejected', code: RoomErrorCode.FULL, message: 'Room is full' };
+    }
+
+    // The creator (holding the host key) or the first one in becomes host; everyone else knocks
+    const state = this.state(roomId);
+    const hostPresent = Boolean(this.participants.get(state.hostId));
+    const claimsHost = this.rooms.isHostKey(roomId, hostKey);
+    if (state.locked && !claimsHost) {
+      return { type: 'rejected', code: RoomErrorCode.LOCKED, message: 'Room is locked' };
+    }
+
+    const meta = this.socket(socketId);
+    const current = this.participants.get(meta.participantId);
+    const participant = current?.roomId === roomId ? current : this.participants.create(roomId, socketId);
+    Object.assign(participant, { name, lang, micEnabled, camEnabled });
+    meta.participantId = participant.id;
+
+    if (claimsHost || !hostPresent) {
+      state.hostId = participant.id;
+      return { type: 'host', participant };
+    }
+    state.lobby.set(participant.id, { name, lang });
+    meta.lobbyRoomId = roomId;
+    return { type: 'lobby', participant, hostId: state.hostId };
+  }
+
+  /** Someone waiting in the lobby, taken out of it for the host to admit or deny */
+  takeFromLobby(roomId: string, participantId: string): Participant | undefined {
+    const state = this.states.get(roomId);
+    const participant = this.participants.get(participantId);
+    if (!state?.lobby.has(participantId) || !participant?.socketId) return undefined;
+    state.lobby.delete(participantId);
+    delete this.socket(participant.socketId).lobbyRoomId;
+    return participant;
+  }
+
+  /**
+   * Turn someone in the lobby away. Their connection stays open, so they can knock again
+   * as a new participant.
+   */
+  deny(roomId: string, participantId: string): Participant | undefined {
+    const participant = this.takeFromLobby(roomId, participantId);
+    if (participant) this.participants.remove(participant.id);
+    return participant;
+  }
+
+  /**
+   * Put a socket's participant in the room, for the first time or back into its seat.
+   * Growing past the SFU threshold moves the room's media mode.
+   */
+  admit(socketId: string, roomId: string): Admission {
+    const participant = this.participantOf(socketId)!;
+    this.socket(socketId).roomId = roomId;
+    participant.admittedAt ??= Date.now();
+    const state = this.state(roomId);
+    const mediaMode = mediaModeFor(state.mediaMode, this.count(roomId), this.sfu);
+    if (mediaMode === state.mediaMode) return { participant, state };
+    state.mediaMode = mediaMode;
+    return { participant, state, switchedTo: mediaMode };
+  }
+
+  setHost(roomId: string, hostId: string | null): void {
+    this.state(roomId).hostId = hostId;
+  }
+
+  setLocked(roomId: string, locked: boolean): void {
+    this.state(roomId).locked = locked;
+  }
+
+  /**
+   * A participant is gone for good. The host role goes to the longest-present remaining
+   * participant, preferring connected ones; with nobody left, the first person waiting
+   * in the lobby is let in as host. The room's state is dropped once nobody is left.
+   */
+  remove(participant: Participant): Departure {
+    const { id, roomId } = participant;
+    this.participants.remove(id);
+    const state = this.states.get(roomId);
+    if (state?.hostId !== id) return { closed: false };
+
+    const remaining = this.participants.inRoom(roomId);
+    const next = remaining.find(p => p.socketId) ?? remaining[0];
+    if (next) {
+      state.hostId = next.id;
+      return { newHostId: next.id, closed: false };
+    }
+    state.hostId = null;
+    const [nextId] = state.lobby.keys();
+    const promoted = nextId ? this.takeFromLobby(roomId, nextId) : undefined;
+    if (promoted) {
+      state.hostId = promoted.id;
+      return { newHostId: promoted.id, promoted, closed: false };
+    }
+    if (state.lobby.size > 0) return { closed: false };
+    this.states.delete(roomId);
+    return { closed: true };
+  }
+
+  /**
+   * A socket is going away. Connections replaced by a resumed one are ignored; people who
+   * never got past the lobby are forgotten; admitted participants are for the caller to
+   * remove now or after the grace period.
+   */
+  disconnect(socketId: string): Disconnection {
+    const meta = this.sockets.get(socketId);
+    this.sockets.delete(socketId);
+    const participant = this.participants.get(meta?.participantId);
+    if (!meta || !participant || participant.socketId !== socketId) return { type: 'ignored' };
+
+    let lobby: { roomId: string; hostId: string | null } | undefined;
+    if (meta.lobbyRoomId) {
+      const state = this.state(meta.lobbyRoomId);
+      state.lobby.delete(participant.id);
+      lobby = { roomId: meta.lobbyRoomId, hostId: state.hostId };
+    }
+    if (!participant.admittedAt) {
+      this.participants.remove(participant.id);
+      return { type: 'not-admitted', participant, lobby };
+    }
+    return { type: 'admitted', participant };
+  }
+
+  /** Forget everyone and cancel pending grace periods */
+  close(): void {
+    this.participants.clear();
+    this.states.clear();
+    this.sockets.clear();
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Room registry
+ * Keeps the metadata of rooms created through the web API (title, creator,
+ * capacity, default language, expiry, glossary) and answers whether a room can be joined.
+ * Optionally snapshots to a JSON file so rooms survive a signaling restart.
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { errorMessage } from './errors.js';
+import { tokensMatch } from './secrets.js';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const DEFAULT_MAX_PARTICIPANTS = 8;
+const MAX_PARTICIPANTS_LIMIT = 50;
+const MAX_TITLE_LENGTH = 120;
+const MAX_GLOSSARY_TERMS = 500;
+const MAX_DO_NOT_TRANSLATE = 200;
+const MAX_TERM_LENGTH = 100;
+
+export const RoomErrorCode = {
+  NOT_FOUND: 'ROOM_NOT_FOUND',
+  EXPIRED: 'ROOM_EXPIRED',
+  FULL: 'ROOM_FULL',
+  LOCKED: 'ROOM_LOCKED',
+  NOT_HOST: 'NOT_HOST',
+  TARGET_NOT_FOUND: 'TARGET_NOT_FOUND',
+  ALREADY_JOINED: 'ALREADY_JOINED',
+} as const;
+
+export type RoomErrorCode = (typeof RoomErrorCode)[keyof typeof RoomErrorCode];
+
+export interface GlossaryTerm {
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+}
+
+export interface Glossary {
+  terms: GlossaryTerm[];
+  doNotTranslate: string[];
+  updatedAt: number;
+}
+
+export interface Room {
+  id: string;
+  title?: string;
+  createdBy?: string;
+  createdAt: number;
+  expiresAt: number;
+  maxParticipants: number;
+  defaultLang?: string;
+  hostKey: string;
+  glossary?: Glossary;
+}
+
+/** What the web API sends when creating a room; anything malformed falls back to defaults */
+export interface RoomInput {
+  title?: unknown;
+  createdBy?: unknown;
+  ttlMinutes?: unknown;
+  maxParticipants?: unknown;
+  defaultLang?: unknown;
+}
+
+export type RoomCheck =
+  | { ok: true; room: Room }
+  | { ok: false; code: RoomErrorCode; message: string };
+
+export interface RoomRegistryOptions {
+  filePath?: string;
+  defaultTtlMs?: number;
+  defaultMaxParticipants?: number;
+  /** Runs for each room pruned after expiring, e.g. to drop its chat history */
+  onExpire?: (roomId: string) => void;
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+function cleanString(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim().slice(0, maxLength);
+  return trimmed || undefined;
+}
+
+// Fields of an object-shaped value, each still to be checked; anything else has none
+function fieldsOf<K extends string>(value: unknown): Partial<Record<K, unknown>> {
+  return typeof value === 'object' && value !== null ? value as Partial<Record<K, unknown>> : {};
+}
+
+/**
+ * Keep only well-formed glossary entries: term pairs for a language pair plus
+ * terms that must never be translated.
+ */
+export function cleanGlossary(input: unknown = {}): Omit<Glossary, 'updatedAt'> {
+  const fields = fieldsOf<keyof Glossary>(input);
+  const terms: GlossaryTerm[] = [];
+  const candidates: unknown[] = Array.isArray(fields.terms) ? fields.terms : [];
+  for (const candidate of candidates) {
+    const term = fieldsOf<keyof GlossaryTerm>(candidate);
+    const entry = {
+      sourceLang: cleanString(term.sourceLang, 8)?.toUpperCase(),
+      targetLang: cleanString(term.targetLang, 8)?.toUpperCase(),
+      source: cleanString(term.source, MAX_TERM_LENGTH),
+      target: cleanString(term.target, MAX_TERM_LENGTH),
+    };
+    if (entry.sourceLang && entry.targetLang && entry.source && entry.target) terms.push(entry as GlossaryTerm);
+    if (terms.length >= MAX_GLOSSARY_TERMS) break;
+  }
+
+  const doNotTranslate: unknown[] = Array.isArray(fields.doNotTranslate) ? fields.doNotTranslate : [];
+  return {
+    terms,
+    doNotTranslate: [...new Set(doNotTranslate.map(t => cleanString(t, MAX_TERM_LENGTH)).filter((t): t is string => Boolean(t)))]
+      .slice(0, MAX_DO_NOT_TRANSLATE),
+  };
+}
+
+export class RoomRegistry {
+  private rooms = new Map<string, Room>();
+  private filePath?: string;
+  private defaultTtlMs: number;
+  private defaultMaxParticipants: number;
+  private onExpire?: (roomId: string) => void;
+
+  constructor({ filePath, defaultTtlMs = DEFAULT_TTL_MS, defaultMaxParticipants = DEFAULT_MAX_PARTICIPANTS, onExpire }: RoomRegistryOptions = {}) {
+    this.filePath = filePath;
+    this.defaultTtlMs = defaultTtlMs;
+    this.defaultMaxParticipants = defaultMaxParticipants;
+    this.onExpire = onExpire;
+    this.load();
+  }
+
+  create(input: RoomInput = {}): Room {
+    const now = Date.now();
+    const ttlMs = input.ttlMinutes != null
+      ? clampInt(input.ttlMinutes, 1, MAX_TTL_MS / 60000, this.defaultTtlMs / 60000) * 60000
+      : this.defaultTtlMs;
+
+    const room: Room = {
+      id: randomUUID(),
+      title: cleanString(input.title, MAX_TITLE_LENGTH),
+      createdBy: cleanString(input.createdBy, MAX_TITLE_LENGTH),
+      createdAt: now,
+      expiresAt: now + ttlMs,
+      maxParticipants: clampInt(input.maxParticipants, 2, MAX_PARTICIPANTS_LIMIT, this.defaultMaxParticipants),
+      defaultLang: cleanString(input.defaultLang, 8),
+      // Secret handed only to the creator so they can claim the host role on join
+      hostKey: randomUUID(),
+    };
+
+    this.rooms.set(room.id, room);
+    this.pruneExpired(now);
+    this.save();
+    return room;
+  }
+
+  get(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  isHostKey(roomId: string, hostKey: unknown): boolean {
+    const room = this.rooms.get(roomId);
+    return Boolean(room && tokensMatch(room.hostKey, hostKey));
+  }
+
+  /**
+   * Room metadata safe to show to anyone holding the link.
+   * The glossary is served separately.
+   */
+  toPublic(room: Room): Omit<Room, 'hostKey' | 'glossary'> {
+    const { hostKey, glossary, ...rest } = room;
+    return rest;
+  }
+
+  getGlossary(room: Room): Glossary {
+    return room.glossary ?? { terms: [], doNotTranslate: [], updatedAt: 0 };
+  }
+
+  setGlossary(room: Room, input: unknown): Glossary {
+    room.glossary = { ...cleanGlossary(input), updatedAt: Date.now() };
+    this.save();
+    return room.glossary;
+  }
+
+  /**
+   * Resolve a room for joining. Returns the room or a typed error code.
+   */
+  check(roomId: unknown, now = Date.now()): RoomCheck {
+    const room = typeof roomId === 'string' ? this.rooms.get(roomId) : undefined;
+    if (!room) return { ok: false, code: RoomErrorCode.NOT_FOUND, message: 'Room does not exist' };
+    if (room.expiresAt <= now) return { ok: false, code: RoomErrorCode.EXPIRED, message: 'Room has expired' };
+    return { ok: true, room };
+  }
+
+  pruneExpired(now = Date.now()): number {
+    let removed = 0;
+    for (const [id, room] of this.rooms) {
+      if (room.expiresAt <= now) {
+        this.rooms.delete(id);
+        this.onExpire?.(id);
+        removed++;
+      }
+    }
+    if (removed > 0) this.save();
+    return removed;
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) return;
+    try {
+      const list: unknown = JSON.parse(readFileSync(this.filePath, 'utf8'));
+      for (const room of Array.isArray(list) ? list : []) {
+        const { id } = fieldsOf<keyof Room>(room);
+        if (typeof id === 'string') this.rooms.set(id, room as Room);
+      }
+    } catch (err: unknown) {
+      console.warn(`[rooms] Could not read ${this.filePath}, starting empty:`, errorMessage(err));
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    try {
+      // Write atomically so a crash mid-write never leaves a truncated file
+      const tmp = `${this.filePath}.tmp`;
+      writeFileSync(tmp, JSON.stringify(Array.from(this.rooms.values())));
+      renameSync(tmp, this.filePath);
+    } catch (err: unknown) {
+      console.warn(`[rooms] Could not persist to ${this.filePath}:`, errorMessage(err));
+    }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Secrets clients present: host keys, resume tokens and the internal API token.
+ * Compared in constant time so response timing does not give away how much matched.
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+export function tokensMatch(expected: string, given: unknown): boolean {
+  if (typeof given !== 'string') return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,615 @@
+/**
+ * Signaling server
+ * The HTTP API and the socket.io transport. Room membership lives in the RoomManager;
+ * this file validates what clients send, asks the manager what should happen and tells
+ * the right sockets about it.
+ */
+
+import express, { type NextFunction, type Request, type Response } from 'express';
+import { createServer, type Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { types as mediasoup } from 'mediasoup';
+import { Server, type DefaultEventsMap, type Socket } from 'socket.io';
+import {
+  isClientEvent, negotiateVersion, parseClientEvent,
+  type ClientEventName, type ClientPayload, type ClientToServerEvents, type ServerPayload,
+  type ServerToClientEvents, type SfuReplies, type SfuRequestName
+} from '@supichat/protocol';
+import { RoomRegistry, RoomErrorCode, type RoomCheck } from './rooms.js';
+import { createEventStore, createMessageStore, type MessageStore } from './message-store.js';
+import { createTranslator, type Translator } from './translator.js';
+import { createSfu, SfuError, type Sfu } from './sfu.js';
+import { createParticipantRegistry, type Participant } from './participants.js';
+import { RoomManager } from './room-manager.js';
+import { errorMessage } from './errors.js';
+import { tokensMatch } from './secrets.js';
+
+interface SocketData {
+  protocolVersion: number;
+}
+
+type SignalingIo = Server<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
+type SignalingSocket = Socket<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
+
+interface ChatMessage {
+  from: string;
+  name?: string;
+  msg: string;
+  lang?: string;
+}
+
+interface RoomEvent {
+  type: 'join' | 'leave' | 'caption';
+  from: string;
+  name?: string;
+  lang?: string;
+  text?: string;
+  startedAt?: number;
+}
+
+type Ack = (reply: unknown) => void;
+
+export interface SignalingServerOptions {
+  env?: NodeJS.ProcessEnv;
+  /** Defaults to the web app's translate API */
+  translator?: Translator;
+}
+
+export interface SignalingServer {
+  app: express.Express;
+  httpServer: HttpServer;
+  io: SignalingIo;
+  rooms: RoomRegistry;
+  manager: RoomManager;
+  path: string;
+  /** Resolves with the port actually bound; pass 0 for any free port */
+  listen(port: number | string): Promise<number>;
+  close(): Promise<void>;
+}
+
+const MAX_TRACKED_DELIVERIES = 5000;
+// How often expired rooms are pruned, so an idle server still lets their history go
+const ROOM_PRUNE_INTERVAL_MS = 60 * 1000;
+
+// 'EN-US', 'en' and 'en-GB' are all English
+function isSameLang(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  return a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase();
+}
+
+function isLoopback(address: string | undefined): boolean {
+  return address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+}
+
+export function createSignalingServer({ env = process.env, translator = createTranslator(env) }: SignalingServerOptions = {}): SignalingServer {
+  const app = express();
+  app.use(express.json());
+  const httpServer = createServer(app);
+
+  const path = env.NEXT_PUBLIC_SIGNALING_PATH || env.SIGNALING_PATH || '/supichat/socket.io';
+  const io: SignalingIo = new Server(httpServer, {
+    path,
+    cors: {
+      origin: true,
+      credentials: true,
+    }
+  });
+
+  const messages: MessageStore<ChatMessage> = createMessageStore(env);
+  const events: MessageStore<RoomEvent> = createEventStore(env);
+  // An expired room can never be opened again, so its history goes with it
+  const rooms = new RoomRegistry({
+    filePath: env.ROOM_STORE_FILE,
+    onExpire: roomId => {
+      Promise.all([messages.forget(roomId), events.forget(roomId)])
+        .catch(err => console.warn('[signaling] failed to drop expired room history:', errorMessage(err)));
+    },
+  });
+  const pruning = setInterval(() => rooms.pruneExpired(), ROOM_PRUNE_INTERVAL_MS);
+  pruning.unref();
+  const historyReplay = Number.parseInt(env.CHAT_HISTORY_REPLAY ?? '', 10) || 50;
+  const media = createSfu(env);
+  // Everything other clients see is keyed by participant id, which survives socket reconnects
+  const manager = new RoomManager({ rooms, participants: createParticipantRegistry(env), sfu: media });
+
+  // Delivery receipts for recent messages: message id -> { senderId, receivers } (participant ids)
+  const deliveries = new Map<string, { senderId: string; receivers: Set<string> }>();
+
+  function trackDelivery(messageId: string, senderId: string) {
+    deliveries.set(messageId, { senderId, receivers: new Set() });
+    if (deliveries.size > MAX_TRACKED_DELIVERIES) {
+      deliveries.delete(deliveries.keys().next().value!);
+    }
+  }
+
+  // Transcript bookkeeping must never interfere with the call itself
+  function recordEvent(roomId: string, event: RoomEvent) {
+    events.append(roomId, event).catch(err => console.warn('[signaling] failed to record room event:', errorMessage(err)));
+  }
+
+  function socketOf(participantId: string | null | undefined): SignalingSocket | undefined {
+    const socketId = manager.participants.get(participantId)?.socketId;
+    return socketId ? io.sockets.sockets.get(socketId) : undefined;
+  }
+
+  // Knocks are sent to whichever socket the host is on now
+  function sendKnocks(roomId: string) {
+    const state = manager.state(roomId);
+    const host = socketOf(state.hostId);
+    if (!host) return;
+    for (const [id, info] of state.lobby) {
+      host.emit('knock', { id, ...info });
+    }
+  }
+
+  function setHost(roomId: string, hostId: string | null) {
+    manager.setHost(roomId, hostId);
+    io.to(roomId).emit('host-changed', { roomId, hostId });
+    // A new host needs to hear about everyone already waiting
+    if (hostId) sendKnocks(roomId);
+  }
+
+  /**
+   * Put a socket's participant in the room, either for the first time or, with
+   * `resumed`, back into the seat it held before its connection dropped.
+   */
+  function admitToRoom(socket: SignalingSocket, roomId: string, { resumed = false } = {}) {
+    socket.join(roomId);
+    const { participant, state, switchedTo } = manager.admit(socket.id, roomId);
+    // Everyone already in the room moves from their mesh connections to the SFU
+    if (switchedTo) socket.to(roomId).emit('media-mode', { roomId, mode: switchedTo });
+    socket.emit('admitted', {
+      roomId,
+      hostId: state.hostId,
+      locked: state.locked,
+      mediaMode: state.mediaMode,
+      participantId: participant.id,
+      resumeToken: participant.resumeToken,
+      resumed,
+    });
+    socket.emit('peers', manager.roster(roomId, participant.id));
+
+    const info = manager.peerInfo(participant);
+    if (resumed) {
+      // Same participant on a new connection: others rebuild their media connection to it
+      socket.to(roomId).emit('peer-reconnected', info);
+      if (state.hostId === participant.id) sendKnocks(roomId);
+    } else {
+      socket.to(roomId).emit('peer-joined', info);
+      recordEvent(roomId, { type: 'join', from: participant.id, name: participant.name, lang: participant.lang });
+    }
+
+    // Replay recent chat so late joiners see the conversation
+    messages.list(roomId, { limit: historyReplay })
+      .then(page => socket.emit('chat-history', { roomId, ...page }))
+      .catch(err => console.warn('[signaling] history replay failed:', errorMessage(err)));
+  }
+
+  /**
+   * A participant is gone for good: tell the room, hand over the host role and clean
+   * up the room once nobody is left in it or waiting to get in
+   */
+  function removeParticipant(participant: Participant) {
+    const { id, roomId, name, socketId } = participant;
+    const departure = manager.remove(participant);
+    (socketId ? io.to(roomId).except(socketId) : io.to(roomId)).emit('peer-left', { id });
+    recordEvent(roomId, { type: 'leave', from: id, name });
+
+    if (departure.newHostId) setHost(roomId, departure.newHostId);
+    // Nobody was left to admit the lobby, so the first person waiting came in as host
+    const promoted = departure.promoted && socketOf(departure.promoted.id);
+    if (promoted) admitToRoom(promoted, roomId);
+    if (departure.closed) media.sfu?.closeRoom(roomId);
+  }
+
+  function rejectHostOnly(socket: SignalingSocket, roomId: string): boolean {
+    if (manager.isHost(socket.id, roomId)) return false;
+    socket.emit('room-error', { roomId, code: RoomErrorCode.NOT_HOST, message: 'Only the host can do that' });
+    return true;
+  }
+
+  // Resolve the participant a host command targets; the host cannot target themselves
+  function getModerationTarget(socket: SignalingSocket, roomId: string, targetId: string): SignalingSocket | null {
+    if (rejectHostOnly(socket, roomId)) return null;
+    const self = manager.participantOf(socket.id);
+    const target = targetId !== self?.id && manager.connectedMember(roomId, targetId) ? socketOf(targetId) : undefined;
+    if (!target) {
+      socket.emit('room-error', { roomId, code: RoomErrorCode.TARGET_NOT_FOUND, message: 'That person is not in the room' });
+      return null;
+    }
+    return target;
+  }
+
+  // Clients offer their protocol version in the handshake; refuse the ones we cannot talk to
+  io.use((socket, next) => {
+    const negotiation = negotiateVersion(socket.handshake.auth?.protocolVersion);
+    if (!negotiation.ok) {
+      const err = new Error(negotiation.message) as Error & { data?: unknown };
+      err.data = { code: negotiation.code, supported: negotiation.supported };
+      next(err);
+      return;
+    }
+    socket.data.protocolVersion = negotiation.version;
+    next();
+  });
+
+  io.on('connection', (socket) => {
+    // Every client event is checked against the shared protocol before its handler runs;
+    // malformed payloads get a protocol-error back (and an error reply when acked)
+    const listen = socket.on.bind(socket) as (event: string, listener: (payload: unknown, ack?: unknown) => void) => void;
+    function on<E extends ClientEventName | SfuRequestName>(event: E, handler: (payload: ClientPayload<E>, ack?: Ack) => void) {
+      listen(event, (payload, ack) => {
+        const reply = typeof ack === 'function' ? ack as Ack : undefined;
+        const parsed = parseClientEvent(event, payload);
+        if (!parsed.ok) {
+          socket.emit('protocol-error', { event, message: parsed.error });
+          reply?.({ error: parsed.error });
+          return;
+        }
+        handler(parsed.value, reply);
+      });
+    }
+
+    socket.onAny((event: string) => {
+      if (!isClientEvent(event)) socket.emit('protocol-error', { event, message: `Unknown event "${event}"` });
+    });
+
+    // The admitted participant this socket speaks for in the room, if any
+    const member = (roomId: string) => manager.memberOf(socket.id, roomId);
+
+    on('join', (request) => {
+      const { roomId } = request;
+      const outcome = manager.join(socket.id, request);
+      switch (outcome.type) {
+        case 'rejected':
+          socket.emit('join-error', { roomId, code: outcome.code, message: outcome.message });
+          return;
+        case 'resumed':
+          // Its media went down with the old connection; the client sets it up again
+          media.sfu?.closePeer(outcome.participant.id);
+          // The server may not have noticed the old connection is dead yet
+          if (outcome.previousSocketId) io.sockets.sockets.get(outcome.previousSocketId)?.disconnect(true);
+          admitToRoom(socket, outcome.participant.roomId, { resumed: true });
+          return;
+        case 'host':
+          setHost(roomId, outcome.participant.id);
+          admitToRoom(socket, roomId);
+          return;
+        case 'lobby': {
+          const { id, name, lang } = outcome.participant;
+          socket.emit('lobby-wait', { roomId, participantId: id });
+          socketOf(outcome.hostId)?.emit('knock', { id, name, lang });
+        }
+      }
+    });
+
+    on('admit', ({ roomId, targetId }) => {
+      if (rejectHostOnly(socket, roomId)) return;
+      if (!manager.state(roomId).lobby.has(targetId) || !socketOf(targetId)) {
+        socket.emit('room-error', { roomId, code: RoomErrorCode.TARGET_NOT_FOUND, message: 'That person is no longer waiting' });
+        return;
+      }
+      const room = rooms.get(roomId);
+      if (room && manager.count(roomId) >= room.maxParticipants) {
+        socket.emit('room-error', { roomId, code: RoomErrorCode.FULL, message: 'Room is full' });
+        return;
+      }
+      manager.takeFromLobby(roomId, targetId);
+      admitToRoom(socketOf(targetId)!, roomId);
+    });
+
+    on('deny', ({ roomId, targetId }) => {
+      if (rejectHostOnly(socket, roomId)) return;
+      const target = socketOf(targetId);
+      if (!target || !manager.deny(roomId, targetId)) {
+        socket.emit('room-error', { roomId, code: RoomErrorCode.TARGET_NOT_FOUND, message: 'That person is no longer waiting' });
+        return;
+      }
+      // The guest keeps their connection, so they can ask again without reloading
+      target.emit('denied', { roomId });
+    });
+
+    const by = () => manager.participantOf(socket.id)!.id;
+
+    on('moderate:mute', ({ roomId, targetId }) => {
+      const target = getModerationTarget(socket, roomId, targetId);
+      if (target) target.emit('moderate:mute', { roomId, by: by() });
+    });
+
+    on('moderate:stop-video', ({ roomId, targetId }) => {
+      const target = getModerationTarget(socket, roomId, targetId);
+      if (target) target.emit('moderate:stop-video', { roomId, by: by() });
+    });
+
+    on('moderate:kick', ({ roomId, targetId }) => {
+      const target = getModerationTarget(socket, roomId, targetId);
+      if (!target) return;
+      target.emit('kicked', { roomId, by: by() });
+      target.disconnect(true);
+    });
+
+    on('room:lock', ({ roomId, locked }) => {
+      if (rejectHostOnly(socket, roomId)) return;
+      manager.setLocked(roomId, locked);
+      io.to(roomId).emit('room:locked', { roomId, locked });
+    });
+
+    // Kept on the participant so it survives a reconnect and the roster tells newcomers who is muted
+    on('state', ({ roomId, micEnabled, camEnabled }) => {
+      const participant = member(roomId);
+      if (!participant) return;
+      participant.micEnabled = micEnabled;
+      participant.camEnabled = camEnabled;
+      socket.to(roomId).emit('peer-state', { id: participant.id, micEnabled, camEnabled });
+    });
+
+    // Which of a participant's streams is a screen share, so receivers can present it.
+    // Sent before the tracks are added, so it always reaches peers ahead of the media.
+    on('screen-share', ({ roomId, streamId }) => {
+      const participant = member(roomId);
+      if (!participant) return;
+      participant.screenStreamId = streamId ? streamId.slice(0, 128) : null;
+      socket.to(roomId).emit('peer-screen', { id: participant.id, streamId: participant.screenStreamId });
+    });
+
+    on('signal', ({ roomId, targetId, data }) => {
+      const participant = member(roomId);
+      if (!participant || manager.participants.get(targetId)?.roomId !== roomId) return;
+      socketOf(targetId)?.emit('signal', { from: participant.id, data });
+    });
+
+    // The server assigns the canonical id/seq/ts, acks the sender with its clientId
+    // and relays receipts as receivers confirm delivery
+    on('chat', async ({ roomId, msg, lang, clientId }) => {
+      const sender = member(roomId);
+      if (!sender) return;
+      const { id: from, name } = sender;
+      let record;
+      try {
+        record = await messages.append(roomId, { from, name, msg, lang });
+      } catch (err) {
+        console.warn('[signaling] failed to store chat message:', errorMessage(err));
+        socket.emit('chat-error', { roomId, clientId, message: 'Message could not be sent' });
+        return;
+      }
+      const { id, seq, ts } = record;
+      trackDelivery(id, from);
+      socket.emit('chat-ack', { roomId, clientId, id, seq, ts });
+
+      // Everyone gets the original straight away; each receiver language then gets its
+      // translation as soon as that one is ready, so a slow provider call holds up nobody.
+      // The declared lang is only the sender's UI language, so the provider's detected source
+      // language decides whether a translation is needed after all.
+      const payload = { id, seq, ts, from, name, msg, lang };
+      const groups = Array.from(manager.socketsByLang(roomId, from, lang));
+      for (const [targetLang = '', ids] of groups) {
+        io.to(ids).emit('chat', { ...payload, translated: '', translatedLang: targetLang });
+        if (isSameLang(lang, targetLang)) continue;
+        translator.translate(msg, targetLang, { roomId }).then(({ translated, detectedLang }) => {
+          if (!translated || isSameLang(detectedLang || lang, targetLang)) return;
+          io.to(ids).emit('chat-translation', { roomId, id, translated, translatedLang: targetLang, detectedLang });
+        });
+      }
+    });
+
+    // Live speech captions. Interim segments go out as-is so viewers see speech as it happens;
+    // final segments are translated once per receiver language like chat. The speaker's
+    // recognizer language is the source language, so there is nothing to detect.
+    on('caption', async ({ roomId, id, text, final, lang, startedAt }) => {
+      const speaker = member(roomId);
+      if (!speaker || !text.trim()) return;
+      const sourceLang = lang || speaker.lang;
+      const caption: ServerPayload<'caption'> = {
+        id,
+        from: speaker.id,
+        name: speaker.name,
+        text,
+        lang: sourceLang,
+        final: Boolean(final),
+        startedAt: startedAt ?? Date.now(),
+        ts: Date.now(),
+      };
+
+      if (!caption.final) {
+        socket.to(roomId).emit('caption', caption);
+        return;
+      }
+      recordEvent(roomId, { type: 'caption', from: caption.from, name: caption.name, text: caption.text, lang: sourceLang, startedAt: caption.startedAt });
+
+      const groups = Array.from(manager.socketsByLang(roomId, speaker.id, sourceLang));
+      const results = await Promise.all(groups.map(([targetLang = '']) =>
+        isSameLang(sourceLang, targetLang)
+          ? { translated: '' }
+          : translator.translate(caption.text, targetLang, { roomId, sourceLang })
+      ));
+      groups.forEach(([targetLang, ids], i) => {
+        io.to(ids).emit('caption', { ...caption, translated: results[i].translated, translatedLang: targetLang });
+      });
+    });
+
+    // SFU negotiation is request/response over acks; every handler answers data or { error }
+    function onSfu<E extends SfuRequestName>(
+      event: E,
+      handler: (payload: ClientPayload<E>, sfu: Sfu, self: Participant) => SfuReplies[E] | void | Promise<SfuReplies[E] | void>
+    ) {
+      on(event, async (payload, ack) => {
+        if (!ack) return;
+        const { roomId } = payload;
+        const self = member(roomId);
+        if (!media.sfu || !self || manager.state(roomId).mediaMode !== 'sfu') {
+          ack({ error: 'SFU is not active in this room' });
+          return;
+        }
+        try {
+          ack((await handler(payload, media.sfu, self)) ?? {});
+        } catch (err) {
+          console.warn(`[signaling] ${event} failed:`, errorMessage(err));
+          ack({ error: err instanceof SfuError ? err.message : 'SFU request failed' });
+        }
+      });
+    }
+
+    onSfu('sfu:capabilities', async ({ roomId }, sfu) => ({ rtpCapabilities: await sfu.rtpCapabilities(roomId) }));
+
+    // SFU peers are participants, so producers keep their owner across a reconnect
+    onSfu('sfu:create-transport', ({ roomId, direction }, sfu, self) =>
+      sfu.createTransport(roomId, self.id, direction));
+
+    // The opaque parameters are mediasoup-client's own, passed through as they came
+    onSfu('sfu:connect-transport', ({ transportId, dtlsParameters }, sfu, self) =>
+      sfu.connectTransport(self.id, transportId, dtlsParameters as mediasoup.DtlsParameters));
+
+    onSfu('sfu:produce', async ({ roomId, transportId, kind, rtpParameters, appData }, sfu, self) => {
+      const source = appData?.source === 'screen' ? 'screen' : 'camera';
+      const producer = await sfu.produce(self.id, transportId, { kind, rtpParameters: rtpParameters as mediasoup.RtpParameters, appData: { source } });
+      socket.to(roomId).emit('sfu:new-producer', { producerId: producer.id, peerId: self.id, kind: producer.kind, source });
+      return { id: producer.id };
+    });
+
+    onSfu('sfu:close-producer', ({ producerId }, sfu, self) => sfu.closeProducer(self.id, producerId));
+
+    onSfu('sfu:producers', ({ roomId }, sfu, self) => ({ producers: sfu.listProducers(roomId, self.id) }));
+
+    onSfu('sfu:consume', ({ roomId, transportId, producerId, rtpCapabilities }, sfu, self) =>
+      sfu.consume(roomId, self.id, { transportId, producerId, rtpCapabilities }, {
+        onClose: consumer => socket.emit('sfu:consumer-closed', { consumerId: consumer.id, producerId }),
+      }));
+
+    onSfu('sfu:resume-consumer', ({ consumerId }, sfu, self) => sfu.resumeConsumer(self.id, consumerId));
+
+    on('lang', ({ roomId, lang }) => {
+      const participant = member(roomId);
+      if (!participant) return;
+      participant.lang = lang;
+      socket.to(roomId).emit('peer-lang', { id: participant.id, lang });
+    });
+
+    on('chat-delivered', ({ roomId, id }) => {
+      const delivery = deliveries.get(id);
+      const receiverId = member(roomId)?.id;
+      if (!delivery || !receiverId || delivery.senderId === receiverId) return;
+      if (delivery.receivers.has(receiverId)) return;
+      delivery.receivers.add(receiverId);
+      socketOf(delivery.senderId)?.emit('chat-receipt', { roomId, id, deliveredTo: delivery.receivers.size });
+    });
+
+    socket.on('disconnecting', (reason) => {
+      const outcome = manager.disconnect(socket.id);
+      // Replaced by a resumed connection; the participant lives on there
+      if (outcome.type === 'ignored') return;
+      if (outcome.type === 'not-admitted') {
+        if (outcome.lobby) socketOf(outcome.lobby.hostId)?.emit('knock-cancelled', { id: outcome.participant.id });
+        return;
+      }
+
+      // Leaving (or being removed) on purpose is final; a dropped connection gets
+      // the grace period to come back before the others see the participant leave
+      const { participant } = outcome;
+      media.sfu?.closePeer(participant.id);
+      if (reason === 'client namespace disconnect' || reason === 'server namespace disconnect') {
+        removeParticipant(participant);
+      } else {
+        manager.participants.detach(participant, removeParticipant);
+      }
+    });
+  });
+
+  function sendRoomError(res: Response, check: Extract<RoomCheck, { ok: false }>) {
+    const status = check.code === RoomErrorCode.EXPIRED ? 410 : 404;
+    return res.status(status).json({ error: check.message, code: check.code });
+  }
+
+  // The room API is for the web app's server, which rate-limits room creation and only
+  // hands history to people who can open the room. Callers prove it with the shared
+  // internal token; without one configured, only local callers get in.
+  function requireInternal(req: Request, res: Response, next: NextFunction) {
+    const token = env.INTERNAL_API_TOKEN;
+    const trusted = token ? tokensMatch(token, req.get('x-internal-token')) : isLoopback(req.socket.remoteAddress);
+    if (trusted) return next();
+    res.status(401).json({ error: 'Internal API', code: 'UNAUTHORIZED' });
+  }
+
+  app.use('/rooms', requireInternal);
+
+  app.post('/rooms', (req, res) => {
+    const room = rooms.create(req.body ?? {});
+    // Only the creator ever sees the host key
+    res.status(201).json(room);
+  });
+
+  app.get('/rooms/:id', (req, res) => {
+    const check = rooms.check(req.params.id);
+    if (!check.ok) return sendRoomError(res, check);
+    res.json({ ...rooms.toPublic(check.room), participantCount: manager.count(check.room.id) });
+  });
+
+  app.get('/rooms/:id/messages', async (req, res) => {
+    const check = rooms.check(req.params.id);
+    if (!check.ok) return sendRoomError(res, check);
+    try {
+      res.json(await messages.list(check.room.id, { before: req.query.before, limit: req.query.limit }));
+    } catch (err) {
+      console.error('[signaling] failed to list messages:', err);
+      res.status(500).json({ error: 'Failed to load messages' });
+    }
+  });
+
+  // Everything needed to render a meeting transcript: chat plus joins, leaves and captions
+  app.get('/rooms/:id/transcript', async (req, res) => {
+    const check = rooms.check(req.params.id);
+    if (!check.ok) return sendRoomError(res, check);
+    try {
+      const [chat, roomEvents] = await Promise.all([messages.all(check.room.id), events.all(check.room.id)]);
+      res.json({ room: rooms.toPublic(check.room), messages: chat, events: roomEvents });
+    } catch (err) {
+      console.error('[signaling] failed to load transcript:', err);
+      res.status(500).json({ error: 'Failed to load transcript' });
+    }
+  });
+
+  app.get('/rooms/:id/glossary', (req, res) => {
+    const check = rooms.check(req.params.id);
+    if (!check.ok) return sendRoomError(res, check);
+    res.json(rooms.getGlossary(check.room));
+  });
+
+  // Only the room creator (holder of the host key) may edit the glossary
+  app.put('/rooms/:id/glossary', (req, res) => {
+    const check = rooms.check(req.params.id);
+    if (!check.ok) return sendRoomError(res, check);
+    if (!rooms.isHostKey(check.room.id, req.get('x-host-key'))) {
+      return res.status(403).json({ error: 'Only the host can edit the glossary', code: RoomErrorCode.NOT_HOST });
+    }
+    res.json(rooms.setGlossary(check.room, req.body ?? {}));
+  });
+
+  /* HEALTH ENDPOINT APPEND START */
+  app.get('/health', (_, res) => {
+    res.json({
+      status: 'ok',
+      service: 'signaling',
+      timestamp: new Date().toISOString(),
+      path
+    });
+  });
+  /* HEALTH ENDPOINT APPEND END */
+
+  function listen(port: number | string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(port, () => {
+        httpServer.off('error', reject);
+        resolve((httpServer.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  // Closing io disconnects every socket and closes the HTTP server with it
+  function close(): Promise<void> {
+    clearInterval(pruning);
+    manager.close();
+    return new Promise(resolve => io.close(() => resolve()));
+  }
+
+  return { app, httpServer, io, rooms, manager, path, listen, close };
+}
@@ -0,0 +1,283 @@
+/**
+ * Selective forwarding unit (mediasoup)
+ * Large rooms send their media once to the server, which forwards it to every
+ * other participant, instead of the full mesh of peer connections small rooms use.
+ * Each room gets a router; each participant a send and a receive transport, one
+ * producer per local track and one consumer per remote track.
+ */
+
+import { createRequire } from 'module';
+import type { types } from 'mediasoup';
+import type { MediaMode, RemoteProducer, SfuReplies, TrackSource } from '@supichat/protocol';
+
+const DEFAULT_THRESHOLD = 5;
+
+const MEDIA_CODECS: types.RouterRtpCodecCapability[] = [
+  { kind: 'audio', mimeType: 'audio/opus', clockRate: 48000, channels: 2 },
+  { kind: 'video', mimeType: 'video/VP8', clockRate: 90000, parameters: {} },
+  {
+    kind: 'video',
+    mimeType: 'video/H264',
+    clockRate: 90000,
+    parameters: { 'packetization-mode': 1, 'profile-level-id': '42e01f', 'level-asymmetry-allowed': 1 },
+  },
+];
+
+export class SfuError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SfuError';
+  }
+}
+
+interface SfuPeer {
+  roomId: string;
+  transports: Map<string, types.WebRtcTransport>;
+  producers: Map<string, types.Producer>;
+  consumers: Map<string, types.Consumer>;
+}
+
+export interface SfuOptions {
+  listenIp?: string;
+  announcedAddress?: string;
+  rtcMinPort?: number;
+  rtcMaxPort?: number;
+}
+
+export class Sfu {
+  private listenIp: string;
+  private announcedAddress?: string;
+  private rtcMinPort: number;
+  private rtcMaxPort: number;
+  private worker: Promise<types.Worker> | null = null;
+  private routers = new Map<string, Promise<types.Router>>();
+  // Keyed by participant id
+  private peers = new Map<string, SfuPeer>();
+
+  constructor({ listenIp = '0.0.0.0', announcedAddress, rtcMinPort = 40000, rtcMaxPort = 40100 }: SfuOptions = {}) {
+    this.listenIp = listenIp;
+    this.announcedAddress = announcedAddress;
+    this.rtcMinPort = rtcMinPort;
+    this.rtcMaxPort = rtcMaxPort;
+  }
+
+  // The worker process starts on first use, so mesh-only deployments never pay for it
+  private getWorker(): Promise<types.Worker> {
+    if (!this.worker) {
+      this.worker = import('mediasoup').then(async mediasoup => {
+        const worker = await mediasoup.createWorker({ rtcMinPort: this.rtcMinPort, rtcMaxPort: this.rtcMaxPort });
+        worker.on('died', () => {
+          console.error('[sfu] mediasoup worker died; SFU rooms will reconnect to a new one');
+          this.worker = null;
+          this.routers.clear();
+          this.peers.clear();
+        });
+        return worker;
+      });
+      this.worker.catch(() => { this.worker = null; });
+    }
+    return this.worker;
+  }
+
+  private getRouter(roomId: string): Promise<types.Router> {
+    let router = this.routers.get(roomId);
+    if (!router) {
+      router = this.getWorker().then(worker => worker.createRouter({ mediaCodecs: MEDIA_CODECS }));
+      router.catch(() => this.routers.delete(roomId));
+      this.routers.set(roomId, router);
+    }
+    return router;
+  }
+
+  private getPeer(peerId: string, roomId: string): SfuPeer {
+    let peer = this.peers.get(peerId);
+    if (!peer) {
+      peer = { roomId, transports: new Map(), producers: new Map(), consumers: new Map() };
+      this.peers.set(peerId, peer);
+    }
+    if (peer.roomId !== roomId) throw new SfuError('Already connected to another room');
+    return peer;
+  }
+
+  async rtpCapabilities(roomId: string): Promise<types.RtpCapabilities> {
+    return (await this.getRouter(roomId)).rtpCapabilities;
+  }
+
+  async createTransport(roomId: string, peerId: string, direction: 'send' | 'recv'): Promise<SfuReplies['sfu:create-transport']> {
+    const router = await this.getRouter(roomId);
+    const peer = this.getPeer(peerId, roomId);
+    const transport = await router.createWebRtcTransport({
+      listenInfos: [
+        { protocol: 'udp', ip: this.listenIp, announcedAddress: this.announcedAddress },
+        { protocol: 'tcp', ip: this.listenIp, announcedAddress: this.announcedAddress },
+      ],
+      enableUdp: true,
+      enableTcp: true,
+      preferUdp: true,
+      appData: { direction },
+    });
+    peer.transports.set(transport.id, transport);
+    return {
+      id: transport.id,
+      iceParameters: transport.iceParameters,
+      iceCandidates: transport.iceCandidates,
+      dtlsParameters: transport.dtlsParameters,
+    };
+  }
+
+  private transportOf(peerId: string, transportId: string): types.WebRtcTransport {
+    const transport = this.peers.get(peerId)?.transports.get(transportId);
+    if (!transport) throw new SfuError('Unknown transport');
+    return transport;
+  }
+
+  async connectTransport(peerId: string, transportId: string, dtlsParameters: types.DtlsParameters): Promise<void> {
+    await this.transportOf(peerId, transportId).connect({ dtlsParameters });
+  }
+
+  /**
+   * Start forwarding one local track; appData.peerId tells consumers whose track it is
+   */
+  async produce(
+    peerId: string,
+    transportId: string,
+    { kind, rtpParameters, appData }: { kind: types.MediaKind; rtpParameters: types.RtpParameters; appData: { source: TrackSource } }
+  ): Promise<types.Producer> {
+    const transport = this.transportOf(peerId, transportId);
+    const producer = await transport.produce({ kind, rtpParameters, appData: { ...appData, peerId } });
+    const peer = this.peers.get(peerId)!;
+    peer.producers.set(producer.id, producer);
+    producer.on('transportclose', () => peer.producers.delete(producer.id));
+    return producer;
+  }
+
+  closeProducer(peerId: string, producerId: string): void {
+    const producer = this.peers.get(peerId)?.producers.get(producerId);
+    if (!producer) return;
+    producer.close();
+    this.peers.get(peerId)!.producers.delete(producerId);
+  }
+
+  /**
+   * Producers in `roomId` a participant should consume: everyone's but their own.
+   * `source` tells a camera or microphone from a screen share.
+   */
+  listProducers(roomId: string, excludePeerId: string): RemoteProducer[] {
+    const result: RemoteProducer[] = [];
+    for (const [peerId, peer] of this.peers) {
+      if (peer.roomId !== roomId || peerId === excludePeerId) continue;
+      for (const producer of peer.producers.values()) {
+        result.push({ producerId: producer.id, peerId, kind: producer.kind, source: (producer.appData.source as TrackSource | undefined) ?? 'camera' });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Create a paused consumer; the client resumes it once its track is wired up,
+   * so no keyframe is lost in between.
+   */
+  async consume(
+    roomId: string,
+    peerId: string,
+    { transportId, producerId, rtpCapabilities }: { transportId: string; producerId: string; rtpCapabilities: types.RtpCapabilities },
+    { onClose }: { onClose?: (consumer: types.Consumer) => void } = {}
+  ): Promise<SfuReplies['sfu:consume']> {
+    const router = await this.getRouter(roomId);
+    if (!router.canConsume({ producerId, rtpCapabilities })) {
+      throw new SfuError('Cannot consume this producer with the given capabilities');
+    }
+    const transport = this.transportOf(peerId, transportId);
+    const consumer = await transport.consume({ producerId, rtpCapabilities, paused: true });
+    const peer = this.peers.get(peerId)!;
+    peer.consumers.set(consumer.id, consumer);
+    consumer.on('transportclose', () => peer.consumers.delete(consumer.id));
+    consumer.on('producerclose', () => {
+      peer.consumers.delete(consumer.id);
+      onClose?.(consumer);
+    });
+    return {
+      id: consumer.id,
+      producerId,
+      kind: consumer.kind,
+      rtpParameters: consumer.rtpParameters,
+    };
+  }
+
+  async resumeConsumer(peerId: string, consumerId: string): Promise<void> {
+    const consumer = this.peers.get(peerId)?.consumers.get(consumerId);
+    if (!consumer) throw new SfuError('Unknown consumer');
+    await consumer.resume();
+  }
+
+  /**
+   * Drop everything a participant had open; closing the transports closes their
+   * producers, which in turn closes everyone's consumers of them.
+   */
+  closePeer(peerId: string): void {
+    const peer = this.peers.get(peerId);
+    if (!peer) return;
+    this.peers.delete(peerId);
+    peer.transports.forEach(transport => transport.close());
+  }
+
+  closeRoom(roomId: string): void {
+    for (const [peerId, peer] of this.peers) {
+      if (peer.roomId === roomId) this.closePeer(peerId);
+    }
+    const router = this.routers.get(roomId);
+    this.routers.delete(roomId);
+    router?.then(r => r.close()).catch(() => {});
+  }
+}
+
+/**
+ * Rooms start as a mesh and switch to the SFU once they grow past the threshold.
+ * They stay on the SFU until they empty, so a room hovering around the threshold
+ * does not renegotiate every time someone comes or goes.
+ */
+export function mediaModeFor(currentMode: MediaMode, participantCount: number, { enabled, threshold }: { enabled: boolean; threshold: number }): MediaMode {
+  if (!enabled) return 'mesh';
+  if (currentMode === 'sfu') return 'sfu';
+  return participantCount > threshold ? 'sfu' : 'mesh';
+}
+
+// mediasoup is an optional dependency: its media worker may not build on every platform
+function mediasoupInstalled(): boolean {
+  try {
+    createRequire(import.meta.url).resolve('mediasoup');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * SFU settings from the environment; SFU_ENABLED turns it on
+ */
+export interface SfuSettings {
+  enabled: boolean;
+  threshold: number;
+  /** Null when the SFU is off */
+  sfu: Sfu | null;
+}
+
+export function createSfu(env: NodeJS.ProcessEnv = process.env, available = mediasoupInstalled): SfuSettings {
+  const enabled = env.SFU_ENABLED === '1' || env.SFU_ENABLED === 'true';
+  const threshold = Number.parseInt(env.SFU_THRESHOLD ?? '', 10) || DEFAULT_THRESHOLD;
+  if (!enabled) return { enabled, threshold, sfu: null };
+  if (!available()) {
+    console.warn('[sfu] SFU_ENABLED is set but mediasoup is not installed (it is an optional dependency); every room stays peer-to-peer');
+    return { enabled: false, threshold, sfu: null };
+  }
+  return {
+    enabled,
+    threshold,
+    sfu: new Sfu({
+      listenIp: env.SFU_LISTEN_IP || '0.0.0.0',
+      announcedAddress: env.SFU_ANNOUNCED_ADDRESS || undefined,
+      rtcMinPort: Number.parseInt(env.SFU_RTC_MIN_PORT ?? '', 10) || 40000,
+      rtcMaxPort: Number.parseInt(env.SFU_RTC_MAX_PORT ?? '', 10) || 40100,
+    }),
+  };
+}
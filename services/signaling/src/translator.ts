@@ -0,0 +1,52 @@
+/**
+ * Translation client for chat and caption fan-out
+ * Calls the web app's /api/translate so the translation cache and provider
+ * configuration stay in one place. Resolves to { translated, detectedLang };
+ * failures resolve to an empty translation so chat delivery never blocks on
+ * translation.
+ */
+
+import { errorMessage } from './errors.js';
+
+const DEFAULT_TRANSLATE_URL = 'http://localhost:3000/supichat/api/translate';
+const TIMEOUT_MS = 5000;
+
+export interface Translation {
+  translated: string;
+  detectedLang?: string;
+}
+
+export interface Translator {
+  translate(text: string, targetLang: string, options?: { roomId?: string; sourceLang?: string }): Promise<Translation>;
+}
+
+export function createTranslator(env: NodeJS.ProcessEnv = process.env): Translator {
+  const url = env.TRANSLATE_API_URL || DEFAULT_TRANSLATE_URL;
+  const token = env.INTERNAL_API_TOKEN;
+
+  // roomId lets the web app apply that room's glossary; sourceLang skips detection when known
+  async function translate(text: string, targetLang: string, { roomId, sourceLang }: { roomId?: string; sourceLang?: string } = {}): Promise<Translation> {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token && { 'X-Internal-Token': token }),
+        },
+        body: JSON.stringify({ text, targetLang, sourceLang, roomId }),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        console.warn(`[translator] ${targetLang} failed: HTTP ${response.status}`);
+        return { translated: '' };
+      }
+      const data: Partial<Translation> | null = await response.json();
+      return { translated: data?.translated || '', detectedLang: data?.detectedLang };
+    } catch (err: unknown) {
+      console.warn(`[translator] ${targetLang} failed:`, errorMessage(err));
+      return { translated: '' };
+    }
+  }
+
+  return { translate };
+}